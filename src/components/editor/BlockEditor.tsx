@@ -1,22 +1,53 @@
-import { useRef, useEffect, KeyboardEvent } from 'react';
+import {
+  useRef,
+  useEffect,
+  useState,
+  useCallback,
+  useMemo,
+  KeyboardEvent,
+  FormEvent,
+  ClipboardEvent,
+  MouseEvent,
+  PointerEvent,
+} from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
 import { Block, BlockType, useBlocks } from '@/hooks/useBlocks';
+import { Page, usePages } from '@/hooks/usePages';
+import { useBlockDrag } from '@/hooks/useBlockDrag';
+import { useBlockHistory } from '@/hooks/useBlockHistory';
+import { useBlocksRealtime } from '@/hooks/useRealtimeSync';
 import { cn } from '@/lib/utils';
+import { blockAnchorId, pagePath, parseBlockAnchor } from '@/lib/routes';
+import { getCaretOffset, getCaretRect, getRangeAtOffsets, setCaretOffset } from '@/lib/caret';
+import {
+  PageRefResolver,
+  insertPageRef,
+  readRichText,
+  serializeSpans,
+  toPlainText,
+  writeRichText,
+} from '@/lib/richText';
+import {
+  getBlockNesting,
+  indentBlock,
+  listMarker,
+  outdentBlock,
+  siblingMoveTarget,
+  withDescendants,
+} from '@/lib/blockTree';
+import { BLOCK_TYPES, SLASH_COMMANDS, filterSlashCommands, matchMarkdownShortcut } from './blockTypes';
+import { SlashCommandMenu, SlashMenuItem } from './SlashCommandMenu';
+import { FormattingToolbar } from './FormattingToolbar';
+import { FindReplaceBar } from './FindReplaceBar';
 import {
-  Type,
-  Heading1,
-  Heading2,
-  Heading3,
-  List,
-  ListOrdered,
-  Quote,
-  Code,
-  Minus,
-  CheckSquare,
   GripVertical,
   Plus,
   Trash2,
   Copy,
   Info,
+  RefreshCw,
+  Link2,
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -25,31 +56,227 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 
+const REMOTE_CHANGE_DISPLAY_MS = 4000;
+const BLOCK_HIGHLIGHT_MS = 2000;
+const PAGE_PICKER_LIMIT = 10;
+// Indentation per level of nesting, in pixels
+const NESTING_INDENT = 24;
+
 interface BlockEditorProps {
   pageId: string;
 }
 
-const BLOCK_TYPES: { type: BlockType; label: string; icon: React.ElementType }[] = [
-  { type: 'paragraph', label: 'Text', icon: Type },
-  { type: 'heading1', label: 'Heading 1', icon: Heading1 },
-  { type: 'heading2', label: 'Heading 2', icon: Heading2 },
-  { type: 'heading3', label: 'Heading 3', icon: Heading3 },
-  { type: 'bulleted_list', label: 'Bulleted List', icon: List },
-  { type: 'numbered_list', label: 'Numbered List', icon: ListOrdered },
-  { type: 'quote', label: 'Quote', icon: Quote },
-  { type: 'code', label: 'Code', icon: Code },
-  { type: 'divider', label: 'Divider', icon: Minus },
-  { type: 'todo', label: 'To-do', icon: CheckSquare },
-];
-
 export function BlockEditor({ pageId }: BlockEditorProps) {
-  const { blocks, loading, createBlock, updateBlock, deleteBlock, insertBlockAfter } = useBlocks(pageId);
+  const blocksApi = useBlocks(pageId);
+  const { blocks, loading, moveBlockToPage } = blocksApi;
+  const {
+    createBlock,
+    updateBlock,
+    updateBlocks,
+    deleteBlock,
+    deleteBlocks,
+    deleteBlockKeepingChildren,
+    insertBlockAfter,
+    moveBlocks,
+    setBlockParents,
+    undo,
+    redo,
+  } = useBlockHistory(pageId, blocksApi);
+  const { pages } = usePages();
+  const [focusBlockId, setFocusBlockId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [editingBlockId, setEditingBlockId] = useState<string | null>(null);
+  const { remoteChangeAt } = useBlocksRealtime(pageId, editingBlockId);
+  const [showRemoteChange, setShowRemoteChange] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [findMode, setFindMode] = useState<'find' | 'replace' | null>(null);
+  const location = useLocation();
+  const navigate = useNavigate();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { dragState, startDrag } = useBlockDrag({ containerRef, onDrop: moveBlocks });
+  const nesting = useMemo(() => getBlockNesting(blocks), [blocks]);
+  // Dragged blocks carry the blocks nested under them
+  const draggingIds = useMemo(
+    () => new Set(dragState ? withDescendants(blocks, nesting, dragState.ids) : []),
+    [blocks, nesting, dragState]
+  );
+
+  const handleAddBlock = async (type: BlockType = 'paragraph', afterId?: string, content: string = '') => {
+    const { data } = afterId
+      ? await insertBlockAfter(afterId, type, content)
+      : await createBlock(type, content);
+    if (data) {
+      setFocusBlockId(data.id);
+    }
+  };
+
+  const movablePages = pages.filter((p) => p.id !== pageId);
+
+  // Page references show the target's current title and icon; pages that are
+  // no longer in the list (trashed or deleted) resolve to null
+  const resolvePage: PageRefResolver = useCallback(
+    (refId) => {
+      const page = pages.find((p) => p.id === refId);
+      return page ? { title: page.title, icon: page.icon } : null;
+    },
+    [pages]
+  );
+
+  // Scroll to and briefly highlight the block named in the URL hash. Keyed on
+  // location.key so following the same link again scrolls again.
+  useEffect(() => {
+    const blockId = parseBlockAnchor(location.hash);
+    if (!blockId || loading) return;
+    const element = document.getElementById(blockAnchorId(blockId));
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(blockId);
+    const timeout = window.setTimeout(() => setHighlightedId(null), BLOCK_HIGHLIGHT_MS);
+    return () => window.clearTimeout(timeout);
+  }, [location.hash, location.key, loading]);
+
+  // Briefly flag changes that arrived from another tab or device
+  useEffect(() => {
+    if (!remoteChangeAt) return;
+    setShowRemoteChange(true);
+    const timeout = window.setTimeout(() => setShowRemoteChange(false), REMOTE_CHANGE_DISPLAY_MS);
+    return () => window.clearTimeout(timeout);
+  }, [remoteChangeAt]);
+
+  // Selected blocks in page order, or just the given block when it isn't selected
+  const getTargetIds = (blockId: string) =>
+    selectedIds.has(blockId)
+      ? blocks.filter((b) => selectedIds.has(b.id)).map((b) => b.id)
+      : [blockId];
+
+  // Worked out when the move runs, so repeated presses each start from where
+  // the previous move left the blocks
+  const moveByOffset = async (ids: string[], direction: -1 | 1) => {
+    const { data } = await moveBlocks(ids, (current) =>
+      siblingMoveTarget(current, getBlockNesting(current), ids, direction)
+    );
+    return !!data;
+  };
+
+  const handleKeyboardMove = async (blockId: string, direction: -1 | 1) => {
+    if (await moveByOffset(getTargetIds(blockId), direction)) {
+      setFocusBlockId(blockId);
+    }
+  };
+
+  // Tab nests a block under its previous sibling; Shift+Tab moves it out a level
+  const handleIndent = (blockId: string, outdent: boolean) =>
+    setBlockParents((current) => {
+      const currentNesting = getBlockNesting(current);
+      return outdent ? outdentBlock(current, currentNesting, blockId) : indentBlock(current, currentNesting, blockId);
+    });
+
+  const handleGripPointerDown = (blockId: string, e: PointerEvent, openMenu: () => void) => {
+    if (e.shiftKey) {
+      setSelectedIds((prev) => {
+        const next = new Set(prev);
+        if (next.has(blockId)) {
+          next.delete(blockId);
+        } else {
+          next.add(blockId);
+        }
+        return next;
+      });
+      return;
+    }
+    startDrag(e, getTargetIds(blockId), openMenu);
+  };
+
+  const handleSelectBlock = (blockId: string) => {
+    (document.activeElement as HTMLElement | null)?.blur();
+    setSelectedIds(new Set([blockId]));
+  };
+
+  // Keyboard handling for selected blocks while no block has focus. Keys typed
+  // into other fields (page title, properties, find bar) are theirs.
+  useEffect(() => {
+    if (selectedIds.size === 0) return;
+
+    const isOutside = (target: EventTarget | null) =>
+      target instanceof Node && target !== document.body && !containerRef.current?.contains(target);
+
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || target.closest('input, textarea, select') || isOutside(target)) return;
+      const ids = blocks.filter((b) => selectedIds.has(b.id)).map((b) => b.id);
 
-  const handleAddBlock = async (type: BlockType = 'paragraph', afterId?: string) => {
-    if (afterId) {
-      await insertBlockAfter(afterId, type);
-    } else {
-      await createBlock(type);
+      if (e.key === 'Escape') {
+        setSelectedIds(new Set());
+      } else if (e.key === 'Backspace' || e.key === 'Delete') {
+        e.preventDefault();
+        deleteBlocks(ids);
+        setSelectedIds(new Set());
+      } else if (e.altKey && e.shiftKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+        e.preventDefault();
+        moveByOffset(ids, e.key === 'ArrowUp' ? -1 : 1);
+      }
+    };
+
+    // Clicking or tabbing anywhere else on the page ends the selection
+    const handleOutside = (e: Event) => {
+      if (isOutside(e.target)) setSelectedIds(new Set());
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('pointerdown', handleOutside);
+    document.addEventListener('focusin', handleOutside);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('pointerdown', handleOutside);
+      document.removeEventListener('focusin', handleOutside);
+    };
+  });
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z replace the per-block browser undo with
+  // the page history. Other editable fields (e.g. the page title) keep their own.
+  useEffect(() => {
+    const handleKeyDown = async (e: globalThis.KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea')) return;
+      if (target.isContentEditable && !containerRef.current?.contains(target)) return;
+
+      e.preventDefault();
+      const focusId = await (e.shiftKey ? redo() : undo());
+      if (focusId) {
+        setFocusBlockId(focusId);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Ctrl/Cmd+F opens find and Ctrl/Cmd+H find and replace, in place of the
+  // browser's find, which can't step through or edit the blocks. Only while
+  // focus is in the editor or nowhere; other fields and dialogs keep theirs.
+  useEffect(() => {
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey || e.shiftKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'f' && key !== 'h') return;
+      const target = e.target as Node;
+      if (target !== document.body && !containerRef.current?.contains(target)) return;
+
+      e.preventDefault();
+      setFindMode(key === 'f' ? 'find' : 'replace');
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleReplace = async (changes: { id: string; content: string }[]) => {
+    const results = await updateBlocks(changes.map(({ id, content }) => ({ id, updates: { content } })));
+    const replaced = results.filter((r) => !r.error).length;
+    if (replaced > 0) {
+      toast.success(`Replaced in ${replaced} block${replaced === 1 ? '' : 's'}`);
     }
   };
 
@@ -62,7 +289,24 @@ export function BlockEditor({ pageId }: BlockEditorProps) {
   }
 
   return (
-    <div className="block-editor space-y-4 text-secondary-foreground leading-relaxed font-light">
+    <div
+      ref={containerRef}
+      className="block-editor relative space-y-4 text-secondary-foreground leading-relaxed font-light"
+      onPointerDown={(e) => {
+        if (selectedIds.size > 0 && !(e.target as HTMLElement).closest('[data-block-grip]')) {
+          setSelectedIds(new Set());
+        }
+      }}
+      onFocus={(e) => setEditingBlockId(e.target.closest('[data-block-id]')?.getAttribute('data-block-id') ?? null)}
+      onBlur={() => setEditingBlockId(null)}
+    >
+      {showRemoteChange && (
+        <div className="absolute -top-8 right-0 flex items-center gap-1.5 rounded-full border border-border bg-secondary px-2.5 py-1 text-xs text-muted-foreground animate-fade-in">
+          <RefreshCw className="w-3 h-3" />
+          Updated from another session
+        </div>
+      )}
+
       {blocks.length === 0 ? (
         <div className="text-muted-foreground">
           <button
@@ -78,14 +322,52 @@ export function BlockEditor({ pageId }: BlockEditorProps) {
           <BlockItem
             key={block.id}
             block={block}
+            pages={movablePages}
+            linkablePages={pages}
+            resolvePage={resolvePage}
+            onSelectPage={(targetPageId) => navigate(pagePath(targetPageId))}
             onUpdate={updateBlock}
             onDelete={deleteBlock}
-            onAddBlockAfter={(type) => handleAddBlock(type, block.id)}
+            onDeleteKeepingChildren={deleteBlockKeepingChildren}
+            onAddBlockAfter={(type, content) => handleAddBlock(type, block.id, content)}
+            onDuplicate={(content) => handleAddBlock(block.type, block.id, content)}
+            onMoveToPage={(targetPageId) => moveBlockToPage(block.id, targetPageId)}
+            onMove={(direction) => handleKeyboardMove(block.id, direction)}
+            onIndent={(outdent) => handleIndent(block.id, outdent)}
+            onSelect={() => handleSelectBlock(block.id)}
+            onGripPointerDown={(e, openMenu) => handleGripPointerDown(block.id, e, openMenu)}
+            depth={nesting.get(block.id)?.depth ?? 0}
+            listNumber={nesting.get(block.id)?.listNumber ?? 1}
             isFirst={index === 0}
+            isSelected={selectedIds.has(block.id)}
+            isHighlighted={highlightedId === block.id}
+            isDragging={draggingIds.has(block.id)}
+            autoFocus={focusBlockId === block.id}
+            onFocused={() => setFocusBlockId(null)}
           />
         ))
       )}
 
+      {dragState && (
+        <div
+          className="absolute left-0 right-0 h-0.5 rounded-full bg-accent pointer-events-none"
+          style={{ top: dragState.indicatorTop }}
+        />
+      )}
+
+      <FormattingToolbar />
+
+      {findMode && (
+        <FindReplaceBar
+          blocks={blocks}
+          resolvePage={resolvePage}
+          showReplace={findMode === 'replace'}
+          onShowReplaceChange={(show) => setFindMode(show ? 'replace' : 'find')}
+          onReplace={handleReplace}
+          onClose={() => setFindMode(null)}
+        />
+      )}
+
       {blocks.length > 0 && (
         <p className="text-muted-foreground italic mt-8">
           Start typing or type '/' for commands...
@@ -95,196 +377,593 @@ export function BlockEditor({ pageId }: BlockEditorProps) {
   );
 }
 
+interface SlashMenuState {
+  // Offset of the trigger ('/', '@' or '[[') that opened the menu
+  start: number;
+  trigger: string;
+  query: string;
+  // 'link' picks a page to reference inline
+  mode: 'commands' | 'move' | 'link';
+  position: { top: number; left: number };
+}
+
+const SLASH_MENU_HEIGHT = 288;
+
 interface BlockItemProps {
   block: Block;
+  pages: Page[];
+  linkablePages: Page[];
+  resolvePage: PageRefResolver;
+  onSelectPage: (pageId: string) => void;
   onUpdate: (id: string, updates: Partial<Pick<Block, 'type' | 'content' | 'checked'>>) => Promise<{ data: Block | null; error: Error | null }>;
   onDelete: (id: string) => Promise<{ error: Error | null }>;
-  onAddBlockAfter: (type: BlockType) => void;
+  onDeleteKeepingChildren: (id: string) => Promise<{ error: Error | null }>;
+  onAddBlockAfter: (type: BlockType, content?: string) => void;
+  onDuplicate: (content: string) => void;
+  onMoveToPage: (pageId: string) => Promise<{ error: Error | null }>;
+  onMove: (direction: -1 | 1) => void;
+  onIndent: (outdent: boolean) => void;
+  onSelect: () => void;
+  onGripPointerDown: (e: PointerEvent, openMenu: () => void) => void;
+  depth: number;
+  listNumber: number;
   isFirst: boolean;
+  isSelected: boolean;
+  isHighlighted: boolean;
+  isDragging: boolean;
+  autoFocus: boolean;
+  onFocused: () => void;
 }
 
-function BlockItem({ block, onUpdate, onDelete, onAddBlockAfter, isFirst }: BlockItemProps) {
+function BlockItem({
+  block,
+  pages,
+  linkablePages,
+  resolvePage,
+  onSelectPage,
+  onUpdate,
+  onDelete,
+  onDeleteKeepingChildren,
+  onAddBlockAfter,
+  onDuplicate,
+  onMoveToPage,
+  onMove,
+  onIndent,
+  onSelect,
+  onGripPointerDown,
+  depth,
+  listNumber,
+  isFirst,
+  isSelected,
+  isHighlighted,
+  isDragging,
+  autoFocus,
+  onFocused,
+}: BlockItemProps) {
   const contentRef = useRef<HTMLDivElement>(null);
+  // Set when a markdown shortcut changes the type, so the remounted element keeps focus
+  const refocusRef = useRef(false);
+  const [slashMenu, setSlashMenu] = useState<SlashMenuState | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  // Read by the sync below, which must not re-run (and overwrite unsaved
+  // typing) just because a page was renamed
+  const resolvePageRef = useRef(resolvePage);
+  resolvePageRef.current = resolvePage;
+
+  useEffect(() => {
+    if (contentRef.current && readBlockContent(contentRef.current, block.type) !== block.content) {
+      writeBlockContent(contentRef.current, block.type, block.content, resolvePageRef.current);
+    }
+    if (contentRef.current && refocusRef.current) {
+      refocusRef.current = false;
+      contentRef.current.focus();
+      setCaretOffset(contentRef.current, 0);
+    }
+    // Re-sync when the type changes too, since that remounts the editable element
+  }, [block.content, block.type]);
 
+  // Re-render page references when pages are renamed or deleted. A focused
+  // block is left alone so the caret doesn't jump; it catches up on the next sync.
   useEffect(() => {
-    if (contentRef.current && contentRef.current.textContent !== block.content) {
-      contentRef.current.textContent = block.content;
+    const el = contentRef.current;
+    if (el && block.type !== 'code' && document.activeElement !== el && el.querySelector('[data-page-ref]')) {
+      writeBlockContent(el, block.type, block.content, resolvePage);
     }
-  }, [block.content]);
+  }, [block.content, block.type, resolvePage]);
+
+  // Focus newly inserted blocks with the caret at the end
+  useEffect(() => {
+    if (autoFocus && contentRef.current) {
+      contentRef.current.focus();
+      setCaretOffset(contentRef.current, contentRef.current.textContent?.length ?? 0);
+      onFocused();
+    }
+  }, [autoFocus, onFocused]);
+
+  const slashItems: SlashMenuItem[] = !slashMenu
+    ? []
+    : slashMenu.mode === 'move'
+      ? pages
+          .filter((p) => (p.title || 'Untitled').toLowerCase().includes(slashMenu.query.trim().toLowerCase()))
+          .map((p) => ({ id: p.id, label: p.title || 'Untitled', emoji: p.icon }))
+      : slashMenu.mode === 'link'
+        ? linkablePages
+            .filter((p) => (p.title || 'Untitled').toLowerCase().includes(slashMenu.query.trim().toLowerCase()))
+            .slice(0, PAGE_PICKER_LIMIT)
+            .map((p) => ({ id: p.id, label: p.title || 'Untitled', emoji: p.icon }))
+        : filterSlashCommands(slashMenu.query).map(({ id, label, icon }) => ({ id, label, icon }));
+
+  const saveContent = (content: string) => {
+    if (content !== block.content) {
+      return onUpdate(block.id, { content });
+    }
+  };
 
   const handleContentChange = () => {
+    setSlashMenu(null);
     if (contentRef.current) {
-      const newContent = contentRef.current.textContent || '';
-      if (newContent !== block.content) {
-        onUpdate(block.id, { content: newContent });
+      saveContent(readBlockContent(contentRef.current, block.type));
+    }
+  };
+
+  // Only plain text may be pasted, so foreign markup never reaches the DOM
+  const handlePaste = (e: ClipboardEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    document.execCommand('insertText', false, e.clipboardData.getData('text/plain'));
+  };
+
+  // Page references open on click; links are editable text, so they open
+  // on Ctrl/Cmd+click
+  const handleClick = (e: MouseEvent<HTMLDivElement>) => {
+    const pageRef = (e.target as HTMLElement).closest<HTMLElement>('[data-page-ref]');
+    if (pageRef) {
+      e.preventDefault();
+      if (!pageRef.hasAttribute('data-broken') && pageRef.dataset.pageRef) {
+        onSelectPage(pageRef.dataset.pageRef);
+      }
+      return;
+    }
+
+    const link = (e.target as HTMLElement).closest('a');
+    if (link && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      window.open(link.href, '_blank', 'noopener,noreferrer');
+    }
+  };
+
+  const getMenuPosition = () => {
+    const rect = getCaretRect();
+    if (!rect) return { top: 0, left: 0 };
+    const fitsBelow = rect.bottom + 4 + SLASH_MENU_HEIGHT < window.innerHeight;
+    return {
+      top: fitsBelow ? rect.bottom + 4 : Math.max(8, rect.top - SLASH_MENU_HEIGHT - 4),
+      left: rect.left,
+    };
+  };
+
+  const handleInput = (e: FormEvent<HTMLDivElement>) => {
+    const el = contentRef.current;
+    if (!el) return;
+    const text = el.textContent || '';
+    const caret = getCaretOffset(el);
+    if (caret === null) return;
+
+    if (slashMenu) {
+      const { start, trigger } = slashMenu;
+      const query = text.slice(start + trigger.length, caret);
+      if (
+        caret < start + trigger.length ||
+        text.slice(start, start + trigger.length) !== trigger ||
+        query.startsWith(' ') ||
+        query.includes(']')
+      ) {
+        setSlashMenu(null);
+      } else {
+        setSlashMenu({ ...slashMenu, query });
+        setActiveIndex(0);
+      }
+      return;
+    }
+
+    const typed = (e.nativeEvent as InputEvent).data;
+
+    if (typed && block.type === 'paragraph') {
+      const shortcut = matchMarkdownShortcut(text, caret);
+      if (shortcut) {
+        applyMarkdownShortcut(shortcut.type, shortcut.trigger.length);
+        return;
+      }
+    }
+
+    if (block.type === 'code') return;
+
+    // Open the menu on a '/' or '@' typed at the start of the block or after
+    // whitespace, or on '[['
+    const before = text[caret - 2];
+    const atWordStart = caret === 1 || /\s/.test(before);
+    if (typed === '/' && atWordStart) {
+      setSlashMenu({ start: caret - 1, trigger: '/', query: '', mode: 'commands', position: getMenuPosition() });
+      setActiveIndex(0);
+    } else if (typed === '@' && atWordStart) {
+      setSlashMenu({ start: caret - 1, trigger: '@', query: '', mode: 'link', position: getMenuPosition() });
+      setActiveIndex(0);
+    } else if (typed === '[' && before === '[') {
+      setSlashMenu({ start: caret - 2, trigger: '[[', query: '', mode: 'link', position: getMenuPosition() });
+      setActiveIndex(0);
+    }
+  };
+
+  const applyMarkdownShortcut = (type: BlockType, triggerLength: number) => {
+    const el = contentRef.current;
+    if (!el) return;
+    getRangeAtOffsets(el, 0, triggerLength).deleteContents();
+    const content = readBlockContent(el, type);
+
+    // Text after the trigger moves to the paragraph below the divider
+    if (type === 'divider') {
+      onUpdate(block.id, { type, content: '' });
+      onAddBlockAfter('paragraph', content);
+      return;
+    }
+
+    refocusRef.current = true;
+    onUpdate(block.id, { type, content });
+  };
+
+  // Remove "/query" from the block, returning the remaining content
+  const stripSlashQuery = (keepSlash: boolean = false) => {
+    const el = contentRef.current;
+    if (!el || !slashMenu) return '';
+    const from = slashMenu.start + (keepSlash ? slashMenu.trigger.length : 0);
+    getRangeAtOffsets(el, from, slashMenu.start + slashMenu.trigger.length + slashMenu.query.length).deleteContents();
+    setCaretOffset(el, from);
+    return readBlockContent(el, block.type);
+  };
+
+  const handleSlashSelect = async (item: SlashMenuItem) => {
+    if (!slashMenu) return;
+
+    if (slashMenu.mode === 'link') {
+      const el = contentRef.current;
+      if (!el) return;
+      const { start, trigger, query } = slashMenu;
+      insertPageRef(getRangeAtOffsets(el, start, start + trigger.length + query.length), item.id, resolvePage);
+      setSlashMenu(null);
+      saveContent(readBlockContent(el, block.type));
+      return;
+    }
+
+    if (slashMenu.mode === 'move') {
+      const content = stripSlashQuery();
+      setSlashMenu(null);
+      await saveContent(content);
+      await onMoveToPage(item.id);
+      return;
+    }
+
+    const command = SLASH_COMMANDS.find((c) => c.id === item.id);
+    if (!command) return;
+
+    if (command.kind === 'action' && command.id === 'move_to') {
+      stripSlashQuery(true);
+      setSlashMenu({ ...slashMenu, query: '', mode: 'move' });
+      setActiveIndex(0);
+      return;
+    }
+
+    const content = stripSlashQuery();
+    setSlashMenu(null);
+
+    if (command.kind === 'block') {
+      // Empty blocks are converted in place; otherwise insert a new block below
+      if (contentRef.current?.textContent?.trim() === '') {
+        onUpdate(block.id, { type: command.type, content: '' });
+      } else {
+        await saveContent(content);
+        onAddBlockAfter(command.type);
       }
+      return;
+    }
+
+    if (command.id === 'duplicate') {
+      await saveContent(content);
+      onDuplicate(content);
+    } else if (command.id === 'delete') {
+      onDelete(block.id);
     }
   };
 
   const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (slashMenu) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        if (slashItems.length > 0) {
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          setActiveIndex((i) => (i + step + slashItems.length) % slashItems.length);
+        }
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        const item = slashItems[activeIndex];
+        if (item) {
+          handleSlashSelect(item);
+        } else {
+          setSlashMenu(null);
+        }
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setSlashMenu(null);
+        return;
+      }
+    }
+
+    // Save pending typing first so the editor's history can undo it as one step
+    if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'z') {
+      handleContentChange();
+      return;
+    }
+
+    if (e.altKey && e.shiftKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+      e.preventDefault();
+      handleContentChange();
+      onMove(e.key === 'ArrowUp' ? -1 : 1);
+      return;
+    }
+
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onSelect();
+      return;
+    }
+
+    // Code blocks keep Tab for the browser
+    if (e.key === 'Tab' && block.type !== 'code') {
+      e.preventDefault();
+      handleContentChange();
+      onIndent(e.shiftKey);
+      return;
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       onAddBlockAfter('paragraph');
     }
 
-    if (e.key === 'Backspace' && contentRef.current?.textContent === '' && !isFirst) {
+    // An empty nested block moves out a level before it can be deleted
+    if (e.key === 'Backspace' && contentRef.current?.textContent === '' && depth > 0) {
       e.preventDefault();
-      onDelete(block.id);
+      onIndent(true);
+    } else if (e.key === 'Backspace' && contentRef.current?.textContent === '' && !isFirst) {
+      e.preventDefault();
+      onDeleteKeepingChildren(block.id);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.origin + pagePath(block.page_id, block.id));
+      toast.success('Link to block copied');
+    } catch {
+      toast.error('Failed to copy link');
     }
   };
 
+  // Includes typing not saved yet, so the conversion doesn't drop it
   const handleTypeChange = (newType: BlockType) => {
-    onUpdate(block.id, { type: newType });
+    const content = contentRef.current ? readBlockContent(contentRef.current, block.type) : block.content;
+    onUpdate(block.id, { type: newType, content: convertBlockContent(content, block.type, newType) });
   };
 
   const handleCheckToggle = () => {
     onUpdate(block.id, { checked: !block.checked });
   };
 
-  // Divider block
-  if (block.type === 'divider') {
-    return (
-      <div className="group flex items-center gap-2 py-2">
-        <BlockActions
-          onTypeChange={handleTypeChange}
-          onDelete={() => onDelete(block.id)}
-          onAddBlockAfter={onAddBlockAfter}
-        />
-        <hr className="flex-1 border-border" />
-      </div>
-    );
-  }
+  const renderBlock = () => {
+    // Divider block
+    if (block.type === 'divider') {
+      return (
+        <div className="group flex items-center gap-2 py-2">
+          <BlockActions
+            onTypeChange={handleTypeChange}
+            onDelete={() => onDelete(block.id)}
+            onCopyLink={handleCopyLink}
+            onAddBlockAfter={onAddBlockAfter}
+            onGripPointerDown={onGripPointerDown}
+          />
+          <hr className="flex-1 border-border" />
+        </div>
+      );
+    }
 
-  // Code block with special styling
-  if (block.type === 'code') {
-    return (
-      <div className="group">
-        <BlockActions
-          onTypeChange={handleTypeChange}
-          onDelete={() => onDelete(block.id)}
-          onAddBlockAfter={onAddBlockAfter}
-        />
-        <div className="relative">
-          <div className="absolute -inset-0.5 bg-gradient-to-r from-accent/20 to-purple-500/20 rounded-lg blur opacity-20 group-hover:opacity-40 transition duration-500" />
-          <div className="code-block relative">
-            <div className="code-block-header">
-              <span className="text-xs text-muted-foreground font-mono">code</span>
-              <div className="flex gap-2">
-                <span className="text-xs text-muted-foreground">Typescript</span>
-                <Copy className="w-3.5 h-3.5 text-muted-foreground cursor-pointer hover:text-foreground" />
+    // Code block with special styling
+    if (block.type === 'code') {
+      return (
+        <div className="group">
+          <BlockActions
+            onTypeChange={handleTypeChange}
+            onDelete={() => onDelete(block.id)}
+            onCopyLink={handleCopyLink}
+            onAddBlockAfter={onAddBlockAfter}
+            onGripPointerDown={onGripPointerDown}
+          />
+          <div className="relative">
+            <div className="absolute -inset-0.5 bg-gradient-to-r from-accent/20 to-purple-500/20 rounded-lg blur opacity-20 group-hover:opacity-40 transition duration-500" />
+            <div className="code-block relative">
+              <div className="code-block-header">
+                <span className="text-xs text-muted-foreground font-mono">code</span>
+                <div className="flex gap-2">
+                  <span className="text-xs text-muted-foreground">Typescript</span>
+                  <Copy className="w-3.5 h-3.5 text-muted-foreground cursor-pointer hover:text-foreground" />
+                </div>
               </div>
+              <pre className="p-4 overflow-x-auto">
+                <code
+                  ref={contentRef}
+                  contentEditable
+                  suppressContentEditableWarning
+                  onBlur={handleContentChange}
+                  onInput={handleInput}
+                  onPaste={handlePaste}
+                  onKeyDown={handleKeyDown}
+                  className="text-sm font-mono text-secondary-foreground outline-none block min-h-[24px]"
+                />
+              </pre>
             </div>
-            <pre className="p-4 overflow-x-auto">
-              <code
-                ref={contentRef}
-                contentEditable
-                suppressContentEditableWarning
-                onBlur={handleContentChange}
-                onKeyDown={handleKeyDown}
-                className="text-sm font-mono text-secondary-foreground outline-none block min-h-[24px]"
-              />
-            </pre>
           </div>
         </div>
-      </div>
-    );
-  }
+      );
+    }
 
-  // Quote block with callout styling
-  if (block.type === 'quote') {
-    return (
-      <div className="group">
-        <BlockActions
-          onTypeChange={handleTypeChange}
-          onDelete={() => onDelete(block.id)}
-          onAddBlockAfter={onAddBlockAfter}
-        />
-        <div className="callout-block callout-info">
-          <Info className="w-5 h-5 text-accent shrink-0 mt-0.5" />
+    // Quote block with callout styling
+    if (block.type === 'quote') {
+      return (
+        <div className="group">
+          <BlockActions
+            onTypeChange={handleTypeChange}
+            onDelete={() => onDelete(block.id)}
+            onCopyLink={handleCopyLink}
+            onAddBlockAfter={onAddBlockAfter}
+            onGripPointerDown={onGripPointerDown}
+          />
+          <div className="callout-block callout-info">
+            <Info className="w-5 h-5 text-accent shrink-0 mt-0.5" />
+            <div
+              ref={contentRef}
+              contentEditable
+              suppressContentEditableWarning
+              onBlur={handleContentChange}
+              onInput={handleInput}
+              onPaste={handlePaste}
+              onKeyDown={handleKeyDown}
+              onClick={handleClick}
+              data-rich-text
+              className="text-sm text-accent/80 leading-relaxed outline-none flex-1 min-h-[24px]"
+              data-placeholder="Quote or callout..."
+            />
+          </div>
+        </div>
+      );
+    }
+
+    // Todo block with custom checkbox
+    if (block.type === 'todo') {
+      return (
+        <div className="group flex items-start gap-3">
+          <BlockActions
+            onTypeChange={handleTypeChange}
+            onDelete={() => onDelete(block.id)}
+            onCopyLink={handleCopyLink}
+            onAddBlockAfter={onAddBlockAfter}
+            onGripPointerDown={onGripPointerDown}
+          />
+          <div className="relative flex items-center pt-1">
+            <input
+              type="checkbox"
+              checked={block.checked || false}
+              onChange={handleCheckToggle}
+              className="custom-checkbox appearance-none w-4 h-4 border border-muted-foreground/50 rounded bg-transparent focus:ring-0 focus:ring-offset-0 cursor-pointer transition-all hover:border-muted-foreground"
+            />
+          </div>
           <div
             ref={contentRef}
             contentEditable
             suppressContentEditableWarning
             onBlur={handleContentChange}
+            onInput={handleInput}
+            onPaste={handlePaste}
             onKeyDown={handleKeyDown}
-            className="text-sm text-accent/80 leading-relaxed outline-none flex-1 min-h-[24px]"
-            data-placeholder="Quote or callout..."
+            onClick={handleClick}
+            data-rich-text
+            className={cn(
+              'flex-1 outline-none min-h-[28px] transition-colors',
+              block.checked ? 'text-muted-foreground line-through decoration-muted-foreground/50' : 'text-secondary-foreground group-hover:text-primary'
+            )}
+            data-placeholder="To-do item..."
           />
         </div>
-      </div>
-    );
-  }
+      );
+    }
 
-  // Todo block with custom checkbox
-  if (block.type === 'todo') {
+    // Default block types (paragraph, headings, lists)
     return (
-      <div className="group flex items-start gap-3">
+      <div className="group flex items-start gap-2">
         <BlockActions
           onTypeChange={handleTypeChange}
           onDelete={() => onDelete(block.id)}
+          onCopyLink={handleCopyLink}
           onAddBlockAfter={onAddBlockAfter}
+          onGripPointerDown={onGripPointerDown}
         />
-        <div className="relative flex items-center pt-1">
-          <input
-            type="checkbox"
-            checked={block.checked || false}
-            onChange={handleCheckToggle}
-            className="custom-checkbox appearance-none w-4 h-4 border border-muted-foreground/50 rounded bg-transparent focus:ring-0 focus:ring-offset-0 cursor-pointer transition-all hover:border-muted-foreground"
+
+        <div className="flex-1 flex items-start gap-2">
+          {/* Block type indicator */}
+          {block.type === 'bulleted_list' && (
+            <span
+              className={cn(
+                'mt-[10px] w-1.5 h-1.5 flex-shrink-0',
+                depth % 3 === 0 && 'rounded-full bg-muted-foreground/50',
+                depth % 3 === 1 && 'rounded-full border border-muted-foreground/60',
+                depth % 3 === 2 && 'bg-muted-foreground/50'
+              )}
+            />
+          )}
+          {block.type === 'numbered_list' && (
+            <span className="mt-[3px] text-sm text-muted-foreground flex-shrink-0">{listMarker(listNumber, depth)}</span>
+          )}
+
+          {/* Content */}
+          <div
+            ref={contentRef}
+            contentEditable
+            suppressContentEditableWarning
+            onBlur={handleContentChange}
+            onInput={handleInput}
+            onPaste={handlePaste}
+            onKeyDown={handleKeyDown}
+            onClick={handleClick}
+            data-rich-text
+            className={cn(
+              'flex-1 outline-none py-1 rounded transition-colors min-h-[28px]',
+              'focus:outline-none',
+              block.type === 'heading1' && 'text-3xl font-medium text-primary tracking-tight',
+              block.type === 'heading2' && 'text-2xl font-medium text-primary',
+              block.type === 'heading3' && 'text-xl font-medium text-primary',
+              block.type === 'paragraph' && 'text-secondary-foreground',
+              (block.type === 'bulleted_list' || block.type === 'numbered_list') && 'text-secondary-foreground'
+            )}
+            data-placeholder={getPlaceholder(block.type)}
           />
         </div>
-        <div
-          ref={contentRef}
-          contentEditable
-          suppressContentEditableWarning
-          onBlur={handleContentChange}
-          onKeyDown={handleKeyDown}
-          className={cn(
-            'flex-1 outline-none min-h-[28px] transition-colors',
-            block.checked ? 'text-muted-foreground line-through decoration-muted-foreground/50' : 'text-secondary-foreground group-hover:text-primary'
-          )}
-          data-placeholder="To-do item..."
-        />
       </div>
     );
-  }
+  };
 
-  // Default block types (paragraph, headings, lists)
   return (
-    <div className="group flex items-start gap-2">
-      <BlockActions
-        onTypeChange={handleTypeChange}
-        onDelete={() => onDelete(block.id)}
-        onAddBlockAfter={onAddBlockAfter}
-      />
-
-      <div className="flex-1 flex items-start gap-2">
-        {/* Block type indicator */}
-        {block.type === 'bulleted_list' && (
-          <span className="mt-[10px] w-1.5 h-1.5 rounded-full bg-muted-foreground/50 flex-shrink-0" />
-        )}
-        {block.type === 'numbered_list' && (
-          <span className="mt-[3px] text-sm text-muted-foreground flex-shrink-0">1.</span>
-        )}
-
-        {/* Content */}
-        <div
-          ref={contentRef}
-          contentEditable
-          suppressContentEditableWarning
-          onBlur={handleContentChange}
-          onKeyDown={handleKeyDown}
-          className={cn(
-            'flex-1 outline-none py-1 rounded transition-colors min-h-[28px]',
-            'focus:outline-none',
-            block.type === 'heading1' && 'text-3xl font-medium text-primary tracking-tight',
-            block.type === 'heading2' && 'text-2xl font-medium text-primary',
-            block.type === 'heading3' && 'text-xl font-medium text-primary',
-            block.type === 'paragraph' && 'text-secondary-foreground',
-            (block.type === 'bulleted_list' || block.type === 'numbered_list') && 'text-secondary-foreground'
-          )}
-          data-placeholder={getPlaceholder(block.type)}
+    <div
+      id={blockAnchorId(block.id)}
+      data-block-id={block.id}
+      style={depth > 0 ? { marginLeft: depth * NESTING_INDENT } : undefined}
+      className={cn(
+        'rounded-md transition-colors duration-500',
+        isSelected && 'bg-accent/10 ring-1 ring-accent/30',
+        isHighlighted && 'bg-accent/20',
+        isDragging && 'opacity-40'
+      )}
+    >
+      {renderBlock()}
+      {slashMenu && (
+        <SlashCommandMenu
+          title={slashMenu.mode === 'move' ? 'Move to' : slashMenu.mode === 'link' ? 'Link to page' : 'Blocks'}
+          items={slashItems}
+          activeIndex={activeIndex}
+          position={slashMenu.position}
+          onSelect={handleSlashSelect}
+          onHover={setActiveIndex}
         />
-      </div>
+      )}
     </div>
   );
 }
@@ -292,10 +971,14 @@ function BlockItem({ block, onUpdate, onDelete, onAddBlockAfter, isFirst }: Bloc
 interface BlockActionsProps {
   onTypeChange: (type: BlockType) => void;
   onDelete: () => void;
+  onCopyLink: () => void;
   onAddBlockAfter: (type: BlockType) => void;
+  onGripPointerDown: (e: PointerEvent, openMenu: () => void) => void;
 }
 
-function BlockActions({ onTypeChange, onDelete, onAddBlockAfter }: BlockActionsProps) {
+function BlockActions({ onTypeChange, onDelete, onCopyLink, onAddBlockAfter, onGripPointerDown }: BlockActionsProps) {
+  const [menuOpen, setMenuOpen] = useState(false);
+
   return (
     <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity pt-1">
       <DropdownMenu>
@@ -314,9 +997,18 @@ function BlockActions({ onTypeChange, onDelete, onAddBlockAfter }: BlockActionsP
         </DropdownMenuContent>
       </DropdownMenu>
 
-      <DropdownMenu>
+      <DropdownMenu open={menuOpen} onOpenChange={setMenuOpen}>
         <DropdownMenuTrigger asChild>
-          <button className="p-1 text-muted-foreground hover:text-foreground hover:bg-secondary rounded transition-colors cursor-grab">
+          <button
+            data-block-grip
+            title="Drag to move, click for options, Shift+click to select"
+            // Presses are handled by the drag logic, which opens the menu on a plain click
+            onPointerDown={(e) => {
+              e.preventDefault();
+              onGripPointerDown(e, () => setMenuOpen(true));
+            }}
+            className="p-1 text-muted-foreground hover:text-foreground hover:bg-secondary rounded transition-colors cursor-grab active:cursor-grabbing touch-none"
+          >
             <GripVertical className="w-4 h-4" />
           </button>
         </DropdownMenuTrigger>
@@ -331,6 +1023,10 @@ function BlockActions({ onTypeChange, onDelete, onAddBlockAfter }: BlockActionsP
             </DropdownMenuItem>
           ))}
           <div className="my-1 border-t border-border" />
+          <DropdownMenuItem onClick={onCopyLink}>
+            <Link2 className="w-4 h-4 mr-2" />
+            Copy link to block
+          </DropdownMenuItem>
           <DropdownMenuItem onClick={onDelete} className="text-destructive focus:text-destructive">
             <Trash2 className="w-4 h-4 mr-2" />
             Delete
@@ -341,6 +1037,26 @@ function BlockActions({ onTypeChange, onDelete, onAddBlockAfter }: BlockActionsP
   );
 }
 
+// Code blocks store raw text; every other block stores inline rich text
+function readBlockContent(element: HTMLElement, type: BlockType): string {
+  return type === 'code' ? element.textContent || '' : readRichText(element);
+}
+
+// Content for a block switching between code and rich text, so that markup
+// neither shows up in code nor gets read into plain code text
+function convertBlockContent(content: string, from: BlockType, to: BlockType): string {
+  if ((from === 'code') === (to === 'code')) return content;
+  return to === 'code' ? toPlainText(content) : serializeSpans([{ text: content }]);
+}
+
+function writeBlockContent(element: HTMLElement, type: BlockType, content: string, resolvePage: PageRefResolver) {
+  if (type === 'code') {
+    element.textContent = content;
+  } else {
+    writeRichText(element, content, resolvePage);
+  }
+}
+
 function getPlaceholder(type: BlockType): string {
   switch (type) {
     case 'heading1':
@@ -0,0 +1,201 @@
+import { useEffect, useMemo, useRef, useState, KeyboardEvent } from 'react';
+import { Block } from '@/hooks/useBlocks';
+import { cn } from '@/lib/utils';
+import { getRangeAtOffsets } from '@/lib/caret';
+import { blockAnchorId } from '@/lib/routes';
+import { PageRefResolver } from '@/lib/richText';
+import {
+  FindMatch,
+  buildMatcher,
+  expandReplacement,
+  findMatches,
+  replaceInBlock,
+} from './findReplace';
+import { ChevronDown, ChevronUp, ChevronRight, Regex, CaseSensitive, X } from 'lucide-react';
+
+// Names of the CSS custom highlights styled in index.css
+const MATCH_HIGHLIGHT = 'find-match';
+const CURRENT_HIGHLIGHT = 'find-current';
+
+interface FindReplaceBarProps {
+  blocks: Block[];
+  resolvePage: PageRefResolver;
+  showReplace: boolean;
+  onShowReplaceChange: (show: boolean) => void;
+  onReplace: (changes: { id: string; content: string }[]) => void;
+  onClose: () => void;
+}
+
+function getEditable(blockId: string): HTMLElement | null {
+  return document.querySelector<HTMLElement>(`#${CSS.escape(blockAnchorId(blockId))} [contenteditable]`);
+}
+
+// Paint matches with the CSS Custom Highlight API, which styles ranges
+// without touching the editable DOM. Browsers without it just skip painting.
+function paintHighlights(matches: FindMatch[], currentIndex: number) {
+  if (typeof CSS === 'undefined' || !CSS.highlights) return;
+  const all = new Highlight();
+  const current = new Highlight();
+
+  matches.forEach((match, index) => {
+    const element = getEditable(match.blockId);
+    if (!element) return;
+    const range = getRangeAtOffsets(element, match.start, match.end);
+    (index === currentIndex ? current : all).add(range);
+  });
+
+  CSS.highlights.set(MATCH_HIGHLIGHT, all);
+  CSS.highlights.set(CURRENT_HIGHLIGHT, current);
+}
+
+function clearHighlights() {
+  if (typeof CSS === 'undefined' || !CSS.highlights) return;
+  CSS.highlights.delete(MATCH_HIGHLIGHT);
+  CSS.highlights.delete(CURRENT_HIGHLIGHT);
+}
+
+export function FindReplaceBar({
+  blocks,
+  resolvePage,
+  showReplace,
+  onShowReplaceChange,
+  onReplace,
+  onClose,
+}: FindReplaceBarProps) {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const findInputRef = useRef<HTMLInputElement>(null);
+
+  const options = useMemo(() => ({ regex, caseSensitive }), [regex, caseSensitive]);
+  const { matcher, error } = useMemo(() => buildMatcher(query, options), [query, options]);
+  const matches = useMemo(
+    () => (matcher ? findMatches(blocks, matcher, resolvePage) : []),
+    [blocks, matcher, resolvePage]
+  );
+  const current = matches.length > 0 ? Math.min(currentIndex, matches.length - 1) : -1;
+
+  useEffect(() => {
+    findInputRef.current?.focus();
+    findInputRef.current?.select();
+  }, [showReplace]);
+
+  useEffect(() => {
+    setCurrentIndex(0);
+  }, [query, options]);
+
+  useEffect(() => {
+    paintHighlights(matches, current);
+  }, [matches, current]);
+
+  useEffect(() => clearHighlights, []);
+
+  // Bring the current match into view
+  useEffect(() => {
+    const match = matches[current];
+    if (!match) return;
+    getEditable(match.blockId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [matches, current]);
+
+  const step = (direction: 1 | -1) => {
+    if (matches.length === 0) return;
+    setCurrentIndex((current + direction + matches.length) % matches.length);
+  };
+
+  const replaceMatches = (targets: FindMatch[]) => {
+    if (!matcher || targets.length === 0) return;
+    const replacementFor = (match: FindMatch) => expandReplacement(match, replacement, options);
+    const changes = blocks
+      .map((block) => ({ block, blockMatches: targets.filter((m) => m.blockId === block.id) }))
+      .filter(({ blockMatches }) => blockMatches.length > 0)
+      .map(({ block, blockMatches }) => ({ id: block.id, content: replaceInBlock(block, blockMatches, replacementFor) }));
+    onReplace(changes);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>, onEnter: () => void) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      onEnter();
+    }
+  };
+
+  const toggleClass = (active: boolean) =>
+    cn(
+      'p-1 rounded transition-colors',
+      active ? 'bg-accent/20 text-accent' : 'text-muted-foreground hover:text-foreground hover:bg-secondary'
+    );
+
+  return (
+    <div className="fixed top-16 right-6 z-40 w-[360px] rounded-lg border border-border bg-popover p-2 shadow-lg animate-fade-in space-y-2">
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => onShowReplaceChange(!showReplace)}
+          className="p-1 text-muted-foreground hover:text-foreground rounded"
+          title="Toggle replace (Ctrl+H)"
+        >
+          {showReplace ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </button>
+        <input
+          ref={findInputRef}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => handleKeyDown(e, () => step(e.shiftKey ? -1 : 1))}
+          placeholder="Find"
+          className={cn(
+            'flex-1 min-w-0 h-7 rounded border bg-secondary px-2 text-sm outline-none focus:border-accent',
+            error ? 'border-destructive' : 'border-border'
+          )}
+        />
+        <button onClick={() => setCaseSensitive(!caseSensitive)} className={toggleClass(caseSensitive)} title="Match case">
+          <CaseSensitive className="w-4 h-4" />
+        </button>
+        <button onClick={() => setRegex(!regex)} className={toggleClass(regex)} title="Use regular expression">
+          <Regex className="w-4 h-4" />
+        </button>
+        <span className="w-14 text-center text-xs text-muted-foreground tabular-nums">
+          {error ? 'Invalid' : matches.length === 0 ? (query ? '0/0' : '') : `${current + 1}/${matches.length}`}
+        </span>
+        <button onClick={() => step(-1)} className={toggleClass(false)} title="Previous match (Shift+Enter)">
+          <ChevronUp className="w-4 h-4" />
+        </button>
+        <button onClick={() => step(1)} className={toggleClass(false)} title="Next match (Enter)">
+          <ChevronDown className="w-4 h-4" />
+        </button>
+        <button onClick={onClose} className={toggleClass(false)} title="Close (Esc)">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {showReplace && (
+        <div className="flex items-center gap-1 pl-7">
+          <input
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            onKeyDown={(e) => handleKeyDown(e, () => replaceMatches(matches.slice(current, current + 1)))}
+            placeholder={regex ? 'Replace ($1 for groups)' : 'Replace'}
+            className="flex-1 min-w-0 h-7 rounded border border-border bg-secondary px-2 text-sm outline-none focus:border-accent"
+          />
+          <button
+            onClick={() => replaceMatches(matches.slice(current, current + 1))}
+            disabled={current === -1}
+            className="h-7 px-2 rounded text-xs text-secondary-foreground hover:bg-secondary disabled:opacity-50"
+          >
+            Replace
+          </button>
+          <button
+            onClick={() => replaceMatches(matches)}
+            disabled={matches.length === 0}
+            className="h-7 px-2 rounded text-xs text-secondary-foreground hover:bg-secondary disabled:opacity-50"
+          >
+            All
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useRef, useState, FormEvent } from 'react';
+import { createPortal } from 'react-dom';
+import { Bold, Italic, Strikethrough, Code, Link } from 'lucide-react';
+import { InlineMark, setInlineLink, toggleInlineMark } from '@/lib/richText';
+
+const MARKS: { mark: InlineMark; label: string; shortcut: string; icon: React.ElementType }[] = [
+  { mark: 'bold', label: 'Bold', shortcut: 'Ctrl+B', icon: Bold },
+  { mark: 'italic', label: 'Italic', shortcut: 'Ctrl+I', icon: Italic },
+  { mark: 'strike', label: 'Strikethrough', shortcut: 'Ctrl+Shift+S', icon: Strikethrough },
+  { mark: 'code', label: 'Inline code', shortcut: 'Ctrl+E', icon: Code },
+];
+
+// Rich-text editable containing the current selection, if any
+function getSelectionEditable(): HTMLElement | null {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+  const node = selection.anchorNode;
+  const element = node instanceof HTMLElement ? node : node?.parentElement;
+  return element?.closest<HTMLElement>('[data-rich-text]') ?? null;
+}
+
+export function FormattingToolbar() {
+  const [rect, setRect] = useState<DOMRect | null>(null);
+  const [linkMode, setLinkMode] = useState(false);
+  const [url, setUrl] = useState('');
+  const savedRangeRef = useRef<Range | null>(null);
+  const editableRef = useRef<HTMLElement | null>(null);
+
+  useEffect(() => {
+    if (linkMode) return;
+
+    const handleSelectionChange = () => {
+      const selection = window.getSelection();
+      const editable = getSelectionEditable();
+      if (!selection || !editable || selection.isCollapsed) {
+        setRect(null);
+        return;
+      }
+      editableRef.current = editable;
+      setRect(selection.getRangeAt(0).getBoundingClientRect());
+    };
+
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, [linkMode]);
+
+  const openLinkInput = useCallback(() => {
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0 || selection.isCollapsed) return;
+    savedRangeRef.current = selection.getRangeAt(0).cloneRange();
+    const node = selection.anchorNode;
+    const existing = (node instanceof HTMLElement ? node : node?.parentElement)?.closest('a');
+    setUrl(existing?.getAttribute('href') ?? '');
+    setLinkMode(true);
+  }, []);
+
+  // Formatting shortcuts apply only while the selection is in a rich-text block
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || !getSelectionEditable()) return;
+      const key = e.key.toLowerCase();
+
+      const mark: InlineMark | null =
+        key === 'b' ? 'bold'
+          : key === 'i' ? 'italic'
+          : key === 'e' ? 'code'
+          : key === 's' && e.shiftKey ? 'strike'
+          : null;
+
+      if (mark) {
+        e.preventDefault();
+        toggleInlineMark(mark);
+      } else if (key === 'k' && !window.getSelection()?.isCollapsed) {
+        // With nothing selected, Cmd/Ctrl+K is left to the command palette
+        e.preventDefault();
+        openLinkInput();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [openLinkInput]);
+
+  const closeLinkInput = () => {
+    setLinkMode(false);
+    setRect(null);
+    savedRangeRef.current = null;
+  };
+
+  const handleLinkSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const range = savedRangeRef.current;
+    const editable = editableRef.current;
+    if (range && editable) {
+      editable.focus();
+      const selection = window.getSelection();
+      selection?.removeAllRanges();
+      selection?.addRange(range);
+      setInlineLink(url.trim());
+    }
+    closeLinkInput();
+  };
+
+  if (!rect) return null;
+
+  return createPortal(
+    <div
+      className="fixed z-50 -translate-x-1/2 -translate-y-full flex items-center gap-0.5 rounded-md border border-border bg-popover p-1 shadow-md animate-fade-in"
+      style={{ top: rect.top - 6, left: rect.left + rect.width / 2 }}
+      onMouseDown={(e) => {
+        // Keep the text selection unless the link input is being used
+        if (!(e.target instanceof HTMLInputElement)) e.preventDefault();
+      }}
+    >
+      {linkMode ? (
+        <form onSubmit={handleLinkSubmit} className="flex items-center gap-1">
+          <input
+            autoFocus
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && closeLinkInput()}
+            onBlur={closeLinkInput}
+            placeholder="Paste a link, or leave empty to remove"
+            className="w-64 bg-transparent px-2 py-1 text-xs text-secondary-foreground outline-none placeholder:text-muted-foreground"
+          />
+        </form>
+      ) : (
+        <>
+          {MARKS.map(({ mark, label, shortcut, icon: Icon }) => (
+            <button
+              key={mark}
+              title={`${label} (${shortcut})`}
+              onClick={() => toggleInlineMark(mark)}
+              className="p-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+            >
+              <Icon className="w-3.5 h-3.5" />
+            </button>
+          ))}
+          <div className="w-px h-4 bg-border mx-0.5" />
+          <button
+            title="Link (Ctrl+K)"
+            onClick={openLinkInput}
+            className="p-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+          >
+            <Link className="w-3.5 h-3.5" />
+          </button>
+        </>
+      )}
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Backlink, BacklinkGroup, usePageBacklinks } from '@/hooks/usePageBacklinks';
+import { Page } from '@/hooks/usePages';
+import { pagePath } from '@/lib/routes';
+import { cn } from '@/lib/utils';
+import { ChevronRight, FileCode, Link2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface PageBacklinksProps {
+  page: Page;
+}
+
+function countLinks(groups: BacklinkGroup[]) {
+  return groups.reduce((sum, group) => sum + group.links.length, 0);
+}
+
+// "Linked references" and "Unlinked mentions" below a page's blocks
+export function PageBacklinks({ page }: PageBacklinksProps) {
+  const navigate = useNavigate();
+  const { linked, unlinked, loading, linkBlockMention } = usePageBacklinks(page.id, page.title);
+  const [linkingId, setLinkingId] = useState<string | null>(null);
+  const [mentionsOpen, setMentionsOpen] = useState(false);
+
+  const handleLink = async (link: Backlink) => {
+    setLinkingId(link.block.id);
+    const { error } = await linkBlockMention(link.block);
+    setLinkingId(null);
+    if (error) toast.error('Failed to link mention');
+  };
+
+  if (loading) return null;
+
+  const renderGroup = ({ page: source, links }: BacklinkGroup, linkable: boolean) => (
+    <div key={source.id} className="space-y-1">
+      <button
+        onClick={() => navigate(pagePath(source.id))}
+        className="flex items-center gap-2 text-sm font-medium text-secondary-foreground hover:text-foreground transition-colors"
+      >
+        {source.icon ? <span className="text-sm">{source.icon}</span> : <FileCode className="w-4 h-4 text-accent" />}
+        {source.title || 'Untitled'}
+      </button>
+      {links.map((link) => (
+        <div
+          key={link.block.id}
+          className="group flex items-start gap-2 ml-6 rounded-md px-2 py-1.5 hover:bg-secondary transition-colors"
+        >
+          <button
+            onClick={() => navigate(pagePath(source.id, link.block.id))}
+            className="flex-1 min-w-0 text-left text-sm text-muted-foreground"
+          >
+            {link.snippet.before}
+            <span className="text-secondary-foreground font-medium">{link.snippet.match}</span>
+            {link.snippet.after}
+          </button>
+          {linkable && (
+            <button
+              onClick={() => handleLink(link)}
+              disabled={linkingId === link.block.id}
+              className="shrink-0 px-2 py-0.5 rounded text-xs text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-foreground hover:bg-background disabled:opacity-50 transition-opacity"
+            >
+              Link it
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  const linkedCount = countLinks(linked);
+  const unlinkedCount = countLinks(unlinked);
+
+  return (
+    <section className="mt-12 pt-6 border-t border-border/40 space-y-6">
+      <div className="space-y-3">
+        <h2 className="flex items-center gap-2 text-xs font-medium uppercase tracking-wider text-muted-foreground">
+          <Link2 className="w-3.5 h-3.5" />
+          Linked references
+          <span className="normal-case tracking-normal">{linkedCount}</span>
+        </h2>
+        {linkedCount === 0 && <p className="text-sm text-muted-foreground">No pages link here yet.</p>}
+        {linked.map((group) => renderGroup(group, false))}
+      </div>
+
+      {unlinkedCount > 0 && (
+        <div className="space-y-3">
+          <button
+            onClick={() => setMentionsOpen(!mentionsOpen)}
+            className="flex items-center gap-2 text-xs font-medium uppercase tracking-wider text-muted-foreground hover:text-secondary-foreground transition-colors"
+          >
+            <ChevronRight className={cn('w-3.5 h-3.5 transition-transform', mentionsOpen && 'rotate-90')} />
+            Unlinked mentions
+            <span className="normal-case tracking-normal">{unlinkedCount}</span>
+          </button>
+          {mentionsOpen && (
+            <div className="space-y-3 animate-fade-in">{unlinked.map((group) => renderGroup(group, true))}</div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
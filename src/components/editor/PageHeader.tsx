@@ -1,24 +1,23 @@
 import { useState, useRef, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { Page } from '@/hooks/usePages';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { Network, User } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { graphPath } from '@/lib/routes';
+import { PageProperties } from './PageProperties';
+import { PageTags } from './PageTags';
+import { STATUS_BADGE_CLASSES, STATUS_DOT_CLASSES, STATUS_OPTIONS, getStatusOption } from './pageStatus';
 
 interface PageHeaderProps {
   page: Page;
-  onUpdatePage: (id: string, updates: Partial<Pick<Page, 'title' | 'icon' | 'cover_image'>>) => Promise<{ data: Page | null; error: Error | null }>;
+  onUpdatePage: (id: string, updates: Partial<Pick<Page, 'title' | 'icon' | 'cover_image' | 'status'>>) => Promise<{ data: Page | null; error: Error | null }>;
 }
 
-const STATUS_OPTIONS = [
-  { label: 'In Progress', color: 'accent' },
-  { label: 'Draft', color: 'muted' },
-  { label: 'Complete', color: 'success' },
-  { label: 'Archived', color: 'warning' },
-];
-
 export function PageHeader({ page, onUpdatePage }: PageHeaderProps) {
   const [title, setTitle] = useState(page.title);
-  const [status, setStatus] = useState(STATUS_OPTIONS[0]);
+  const status = getStatusOption(page.status);
   const titleRef = useRef<HTMLHeadingElement>(null);
 
   useEffect(() => {
@@ -47,7 +46,15 @@ export function PageHeader({ page, onUpdatePage }: PageHeaderProps) {
       {/* Banner Image */}
       <div className="w-full h-32 bg-gradient-to-r from-secondary via-secondary to-accent/10 rounded-xl mb-8 border border-border/50 flex items-center justify-center overflow-hidden relative group">
         <div className="opacity-10 absolute inset-0 bg-[url('data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSI0IiBoZWlnaHQ9IjQiPjxyZWN0IHdpZHRoPSI0IiBoZWlnaHQ9IjQiIGZpbGw9IiMxMTEiLz48cmVjdCB3aWR0aD0iMiIgaGVpZ2h0PSIyIiBmaWxsPSIjMjIyIi8+PC9zdmc+')]" />
-        <Network className="w-10 h-10 text-muted-foreground/30 group-hover:scale-110 transition-transform duration-500" />
+        {/* Opens the graph around this page */}
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Link to={graphPath(page.id)} className="relative rounded-full p-2">
+              <Network className="w-10 h-10 text-muted-foreground/30 group-hover:scale-110 hover:text-muted-foreground/60 transition-all duration-500" />
+            </Link>
+          </TooltipTrigger>
+          <TooltipContent>Show in graph</TooltipContent>
+        </Tooltip>
       </div>
 
       {/* Document Title */}
@@ -65,7 +72,7 @@ export function PageHeader({ page, onUpdatePage }: PageHeaderProps) {
       </h1>
 
       {/* Meta Tags */}
-      <div className="flex items-center gap-3 mb-8">
+      <div className="flex items-center gap-3 mb-4">
         <div className="flex items-center gap-1.5 px-2 py-0.5 rounded border border-border bg-secondary/50 text-xs text-muted-foreground">
           <User className="w-3 h-3" />
           <span>Author</span>
@@ -75,44 +82,34 @@ export function PageHeader({ page, onUpdatePage }: PageHeaderProps) {
           <PopoverTrigger asChild>
             <button className={cn(
               'flex items-center gap-1.5 px-2 py-0.5 rounded border text-xs cursor-pointer transition-colors',
-              status.color === 'accent' && 'border-accent/20 bg-accent/10 text-accent',
-              status.color === 'muted' && 'border-border bg-secondary/50 text-muted-foreground',
-              status.color === 'success' && 'border-success/20 bg-success/10 text-success',
-              status.color === 'warning' && 'border-warning/20 bg-warning/10 text-warning',
+              STATUS_BADGE_CLASSES[status.color]
             )}>
-              <span className={cn(
-                'w-1.5 h-1.5 rounded-full',
-                status.color === 'accent' && 'bg-accent',
-                status.color === 'muted' && 'bg-muted-foreground',
-                status.color === 'success' && 'bg-success',
-                status.color === 'warning' && 'bg-warning',
-              )} />
+              <span className={cn('w-1.5 h-1.5 rounded-full', STATUS_DOT_CLASSES[status.color])} />
               <span>{status.label}</span>
             </button>
           </PopoverTrigger>
           <PopoverContent align="start" className="w-40 p-1">
             {STATUS_OPTIONS.map((option) => (
               <button
-                key={option.label}
-                onClick={() => setStatus(option)}
+                key={option.value}
+                onClick={() => option.value !== page.status && onUpdatePage(page.id, { status: option.value })}
                 className={cn(
                   'w-full flex items-center gap-2 px-2 py-1.5 text-xs rounded hover:bg-secondary transition-colors text-left',
-                  status.label === option.label && 'bg-secondary'
+                  status.value === option.value && 'bg-secondary'
                 )}
               >
-                <span className={cn(
-                  'w-1.5 h-1.5 rounded-full',
-                  option.color === 'accent' && 'bg-accent',
-                  option.color === 'muted' && 'bg-muted-foreground',
-                  option.color === 'success' && 'bg-success',
-                  option.color === 'warning' && 'bg-warning',
-                )} />
+                <span className={cn('w-1.5 h-1.5 rounded-full', STATUS_DOT_CLASSES[option.color])} />
                 {option.label}
               </button>
             ))}
           </PopoverContent>
         </Popover>
+
+        <PageTags pageId={page.id} />
       </div>
+
+      {/* Custom Properties */}
+      <PageProperties pageId={page.id} />
     </div>
   );
 }
@@ -0,0 +1,354 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { PageProperty, PropertyType, PropertyValue, usePageProperties } from '@/hooks/usePageProperties';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Calendar } from '@/components/ui/calendar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Check, ExternalLink, Minus, Plus, Trash2 } from 'lucide-react';
+import { PROPERTY_TYPES, formatPropertyValue, getPropertyTypeIcon } from './propertyTypes';
+import { cn } from '@/lib/utils';
+import { isSafeUrl } from '@/lib/richText';
+import { toast } from 'sonner';
+
+interface PagePropertiesProps {
+  pageId: string;
+}
+
+interface ValueEditorProps {
+  property: PageProperty;
+  value: PropertyValue | undefined;
+  onChange: (value: PropertyValue | null) => void;
+  onAddOption: (option: string) => Promise<boolean>;
+}
+
+const EMPTY_LABEL = <span className="text-muted-foreground/60">Empty</span>;
+
+// Text, number, person and URL values, saved on blur or Enter
+function TextValueEditor({ property, value, onChange }: ValueEditorProps) {
+  const { user } = useAuth();
+  const [draft, setDraft] = useState(value === undefined ? '' : String(value));
+
+  useEffect(() => {
+    setDraft(value === undefined ? '' : String(value));
+  }, [value]);
+
+  const commit = () => {
+    const trimmed = draft.trim();
+    if (!trimmed) {
+      if (value !== undefined) onChange(null);
+    } else if (property.type === 'number') {
+      const number = Number(trimmed);
+      if (Number.isNaN(number)) {
+        setDraft(value === undefined ? '' : String(value));
+      } else if (number !== value) {
+        onChange(number);
+      }
+    } else if (trimmed !== value) {
+      onChange(trimmed);
+    }
+  };
+
+  const listId = `property-${property.id}-people`;
+
+  return (
+    <div className="flex items-center gap-1 min-w-0 flex-1">
+      <input
+        value={draft}
+        type={property.type === 'number' ? 'number' : 'text'}
+        list={property.type === 'person' ? listId : undefined}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+        }}
+        placeholder="Empty"
+        className="flex-1 min-w-0 bg-transparent px-1.5 py-0.5 rounded text-sm text-secondary-foreground placeholder:text-muted-foreground/60 hover:bg-secondary focus:bg-secondary focus:outline-none"
+      />
+      {property.type === 'person' && user?.user_metadata?.display_name && (
+        <datalist id={listId}>
+          <option value={user.user_metadata.display_name} />
+        </datalist>
+      )}
+      {property.type === 'url' && typeof value === 'string' && (
+        <a
+          href={isSafeUrl(value) ? value.trim() : `https://${value.trim()}`}
+          target="_blank"
+          rel="noreferrer"
+          className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-secondary"
+        >
+          <ExternalLink className="w-3.5 h-3.5" />
+        </a>
+      )}
+    </div>
+  );
+}
+
+function DateValueEditor({ value, onChange }: ValueEditorProps) {
+  const [open, setOpen] = useState(false);
+  const date = typeof value === 'string' ? parseISO(value) : undefined;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button className="px-1.5 py-0.5 rounded text-sm text-left text-secondary-foreground hover:bg-secondary">
+          {date ? formatPropertyValue('date', value as string) : EMPTY_LABEL}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-auto p-0">
+        <Calendar
+          mode="single"
+          selected={date}
+          defaultMonth={date}
+          onSelect={(day) => {
+            onChange(day ? format(day, 'yyyy-MM-dd') : null);
+            setOpen(false);
+          }}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function SelectValueEditor({ property, value, onChange, onAddOption }: ValueEditorProps) {
+  const [newOption, setNewOption] = useState('');
+  const multiple = property.type === 'multi_select';
+  const selected = Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+
+  const toggle = (option: string) => {
+    if (!multiple) {
+      onChange(selected.includes(option) ? null : option);
+      return;
+    }
+    const next = selected.includes(option) ? selected.filter((o) => o !== option) : [...selected, option];
+    onChange(next.length > 0 ? next : null);
+  };
+
+  const handleAddOption = async (e: FormEvent) => {
+    e.preventDefault();
+    const option = newOption.trim();
+    if (!option) return;
+    if (property.options.includes(option) || (await onAddOption(option))) {
+      setNewOption('');
+      if (!selected.includes(option)) toggle(option);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="flex flex-wrap items-center gap-1 px-1.5 py-0.5 rounded text-sm text-left hover:bg-secondary min-h-[1.75rem]">
+          {selected.length > 0
+            ? selected.map((option) => (
+                <span key={option} className="px-1.5 rounded border border-border bg-secondary/50 text-xs text-secondary-foreground">
+                  {option}
+                </span>
+              ))
+            : EMPTY_LABEL}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-56 p-1">
+        <form onSubmit={handleAddOption}>
+          <input
+            autoFocus
+            value={newOption}
+            onChange={(e) => setNewOption(e.target.value)}
+            placeholder="Add an option..."
+            className="w-full bg-transparent px-2 py-1.5 text-xs border-b border-border mb-1 focus:outline-none"
+          />
+        </form>
+        {property.options.length === 0 && (
+          <p className="px-2 py-1.5 text-xs text-muted-foreground">No options yet</p>
+        )}
+        {property.options.map((option) => (
+          <button
+            key={option}
+            onClick={() => toggle(option)}
+            className="w-full flex items-center gap-2 px-2 py-1.5 text-xs rounded hover:bg-secondary transition-colors text-left"
+          >
+            <Check className={cn('w-3.5 h-3.5', !selected.includes(option) && 'opacity-0')} />
+            <span className="truncate">{option}</span>
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function ValueEditor(props: ValueEditorProps) {
+  switch (props.property.type) {
+    case 'checkbox':
+      return (
+        <div className="px-1.5 py-1">
+          <Checkbox checked={props.value === true} onCheckedChange={(checked) => props.onChange(checked === true)} />
+        </div>
+      );
+    case 'date':
+      return <DateValueEditor {...props} />;
+    case 'select':
+    case 'multi_select':
+      return <SelectValueEditor {...props} />;
+    default:
+      return <TextValueEditor {...props} />;
+  }
+}
+
+// Typed properties of a page, under its title. Every page shares the user's
+// property schema; a page shows the properties it has values for.
+export function PageProperties({ pageId }: PagePropertiesProps) {
+  const { properties, getPageValues, createProperty, updateProperty, deleteProperty, setValue } = usePageProperties();
+  // Properties added to this page that have no value yet
+  const [addedIds, setAddedIds] = useState<string[]>([]);
+  const [adding, setAdding] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    setAddedIds([]);
+  }, [pageId]);
+
+  const values = getPageValues(pageId);
+  const shown = properties.filter((p) => values[p.id] !== undefined || addedIds.includes(p.id));
+  const available = properties.filter((p) => !shown.includes(p));
+
+  const showProperty = (propertyId: string) => {
+    setAddedIds((prev) => [...prev, propertyId]);
+    setAdding(false);
+    setNewName('');
+  };
+
+  const hideProperty = (propertyId: string) => {
+    setAddedIds((prev) => prev.filter((id) => id !== propertyId));
+  };
+
+  const handleChange = async (property: PageProperty, value: PropertyValue | null) => {
+    const { error } = await setValue(pageId, property.id, value);
+    if (error) toast.error(`Failed to update ${property.name}`);
+  };
+
+  const handleCreate = async (type: PropertyType) => {
+    const name = newName.trim();
+    if (!name) return;
+    const { data, error } = await createProperty(name, type);
+    if (error) {
+      toast.error(properties.some((p) => p.name === name) ? 'A property with that name exists' : 'Failed to create property');
+    } else if (data) {
+      showProperty(data.id);
+    }
+  };
+
+  const handleAddOption = async (property: PageProperty, option: string) => {
+    const { error } = await updateProperty(property.id, { options: [...property.options, option] });
+    if (error) toast.error('Failed to add option');
+    return !error;
+  };
+
+  const handleRemove = async (property: PageProperty) => {
+    hideProperty(property.id);
+    if (values[property.id] !== undefined) await handleChange(property, null);
+  };
+
+  const handleDelete = async (property: PageProperty) => {
+    const { error } = await deleteProperty(property.id);
+    if (error) {
+      toast.error('Failed to delete property');
+    } else {
+      toast.success(`Deleted ${property.name} from all pages`);
+    }
+  };
+
+  return (
+    <div className="space-y-0.5">
+      {shown.map((property) => {
+        const Icon = getPropertyTypeIcon(property.type);
+        return (
+          <div key={property.id} className="flex items-start gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button className="w-36 shrink-0 flex items-center gap-2 px-1.5 py-1 rounded text-sm text-muted-foreground hover:bg-secondary transition-colors">
+                  <Icon className="w-3.5 h-3.5 shrink-0" />
+                  <span className="truncate">{property.name}</span>
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start" className="w-52">
+                <DropdownMenuItem onClick={() => handleRemove(property)}>
+                  <Minus className="w-4 h-4 mr-2" />
+                  Remove from page
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={() => handleDelete(property)}
+                  className="text-destructive focus:text-destructive"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete property
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <ValueEditor
+              property={property}
+              value={values[property.id]}
+              onChange={(value) => handleChange(property, value)}
+              onAddOption={(option) => handleAddOption(property, option)}
+            />
+          </div>
+        );
+      })}
+
+      <Popover open={adding} onOpenChange={setAdding}>
+        <PopoverTrigger asChild>
+          <button className="flex items-center gap-2 px-1.5 py-1 rounded text-sm text-muted-foreground/70 hover:text-muted-foreground hover:bg-secondary transition-colors">
+            <Plus className="w-3.5 h-3.5" />
+            Add a property
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-56 p-1">
+          <input
+            autoFocus
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Property name"
+            className="w-full bg-transparent px-2 py-1.5 text-xs border-b border-border mb-1 focus:outline-none"
+          />
+          {newName.trim() ? (
+            <>
+              <p className="px-2 py-1 text-[10px] uppercase tracking-wider text-muted-foreground">Type</p>
+              {PROPERTY_TYPES.map(({ type, label, icon: Icon }) => (
+                <button
+                  key={type}
+                  onClick={() => handleCreate(type)}
+                  className="w-full flex items-center gap-2 px-2 py-1.5 text-xs rounded hover:bg-secondary transition-colors text-left"
+                >
+                  <Icon className="w-3.5 h-3.5" />
+                  {label}
+                </button>
+              ))}
+            </>
+          ) : available.length > 0 ? (
+            available.map((property) => {
+              const Icon = getPropertyTypeIcon(property.type);
+              return (
+                <button
+                  key={property.id}
+                  onClick={() => showProperty(property.id)}
+                  className="w-full flex items-center gap-2 px-2 py-1.5 text-xs rounded hover:bg-secondary transition-colors text-left"
+                >
+                  <Icon className="w-3.5 h-3.5" />
+                  <span className="truncate">{property.name}</span>
+                </button>
+              );
+            })
+          ) : (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">Type a name to create a property</p>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { FormEvent, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { usePageTags } from '@/hooks/usePageTags';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Hash, Plus, X } from 'lucide-react';
+import { tagPath } from '@/lib/routes';
+import { normalizeTag } from '@/lib/tags';
+import { toast } from 'sonner';
+
+interface PageTagsProps {
+  pageId: string;
+}
+
+// Tag chips in the page header. Tags written as #tag in the page's blocks show
+// here too, but can only be removed by editing the blocks.
+export function PageTags({ pageId }: PageTagsProps) {
+  const navigate = useNavigate();
+  const { tags: allTags, getPageTags, addTag, removeTag } = usePageTags();
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState('');
+
+  const pageTags = getPageTags(pageId);
+  const query = input.trim().replace(/^#/, '').toLowerCase();
+  const suggestions = allTags
+    .filter(({ tag }) => tag.includes(query) && !pageTags.some((t) => t.tag === tag))
+    .slice(0, 8);
+
+  const handleAdd = async (tag: string) => {
+    if (!normalizeTag(tag)) {
+      toast.error('Tags start with a letter and use only letters, digits, -, _ and /');
+      return;
+    }
+    const { error } = await addTag(pageId, tag);
+    if (error) {
+      toast.error('Failed to add tag');
+    } else {
+      setInput('');
+      setOpen(false);
+    }
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (input.trim()) handleAdd(input);
+  };
+
+  const handleRemove = async (tag: string) => {
+    const { error } = await removeTag(pageId, tag);
+    if (error) toast.error('Failed to remove tag');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {pageTags.map(({ tag, manual }) => (
+        <span
+          key={tag}
+          className="group flex items-center gap-0.5 px-2 py-0.5 rounded border border-border bg-secondary/50 text-xs text-muted-foreground"
+          title={manual ? undefined : 'Tagged in the page content'}
+        >
+          <button onClick={() => navigate(tagPath(tag))} className="hover:text-secondary-foreground transition-colors">
+            #{tag}
+          </button>
+          {manual && (
+            <button
+              onClick={() => handleRemove(tag)}
+              className="-mr-1 p-0.5 rounded opacity-0 group-hover:opacity-100 hover:text-foreground transition-opacity"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </span>
+      ))}
+
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <button className="flex items-center gap-1 px-1.5 py-0.5 rounded text-xs text-muted-foreground/70 hover:text-muted-foreground hover:bg-secondary transition-colors">
+            {pageTags.length > 0 ? (
+              <Plus className="w-3 h-3" />
+            ) : (
+              <>
+                <Hash className="w-3 h-3" />
+                Add tag
+              </>
+            )}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-48 p-1">
+          <form onSubmit={handleSubmit}>
+            <input
+              autoFocus
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Tag name"
+              className="w-full bg-transparent px-2 py-1.5 text-xs border-b border-border mb-1 focus:outline-none"
+            />
+          </form>
+          {suggestions.map(({ tag, count }) => (
+            <button
+              key={tag}
+              onClick={() => handleAdd(tag)}
+              className="w-full flex items-center gap-2 px-2 py-1.5 text-xs rounded hover:bg-secondary transition-colors text-left"
+            >
+              <span className="flex-1 truncate">#{tag}</span>
+              <span className="text-muted-foreground">{count}</span>
+            </button>
+          ))}
+          {suggestions.length === 0 && (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">
+              {input.trim() ? 'Press Enter to add' : 'Type to add a tag'}
+            </p>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
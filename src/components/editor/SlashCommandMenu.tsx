@@ -0,0 +1,71 @@
+import { useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { FileText } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export interface SlashMenuItem {
+  id: string;
+  label: string;
+  icon?: React.ElementType;
+  emoji?: string | null;
+}
+
+interface SlashCommandMenuProps {
+  title: string;
+  items: SlashMenuItem[];
+  activeIndex: number;
+  position: { top: number; left: number };
+  onSelect: (item: SlashMenuItem) => void;
+  onHover: (index: number) => void;
+}
+
+export function SlashCommandMenu({ title, items, activeIndex, position, onSelect, onHover }: SlashCommandMenuProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the active item visible while navigating with the keyboard
+  useEffect(() => {
+    const active = listRef.current?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`);
+    active?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  return createPortal(
+    <div
+      ref={listRef}
+      className="fixed z-50 w-60 max-h-72 overflow-y-auto rounded-md border border-border bg-popover p-1 text-popover-foreground shadow-md animate-slide-in"
+      style={{ top: position.top, left: position.left }}
+      // Keep focus (and the caret) in the block being edited
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      <div className="px-2 py-1.5 text-xs font-medium text-muted-foreground uppercase">
+        {title}
+      </div>
+      {items.length === 0 ? (
+        <div className="px-2 py-1.5 text-sm text-muted-foreground">No results</div>
+      ) : (
+        items.map((item, index) => {
+          const Icon = item.icon ?? FileText;
+          return (
+            <button
+              key={item.id}
+              data-index={index}
+              onClick={() => onSelect(item)}
+              onMouseEnter={() => onHover(index)}
+              className={cn(
+                'w-full flex items-center gap-2 px-2 py-1.5 text-sm rounded-sm text-left transition-colors',
+                index === activeIndex ? 'bg-secondary text-secondary-foreground' : 'text-muted-foreground'
+              )}
+            >
+              {item.emoji ? (
+                <span className="w-4 text-center text-sm">{item.emoji}</span>
+              ) : (
+                <Icon className="w-4 h-4" />
+              )}
+              <span className="truncate">{item.label}</span>
+            </button>
+          );
+        })
+      )}
+    </div>,
+    document.body
+  );
+}
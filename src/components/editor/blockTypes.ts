@@ -0,0 +1,102 @@
+import { BlockType } from '@/hooks/useBlocks';
+import {
+  Type,
+  Heading1,
+  Heading2,
+  Heading3,
+  List,
+  ListOrdered,
+  Quote,
+  Code,
+  Minus,
+  CheckSquare,
+  CopyPlus,
+  Trash2,
+  FileInput,
+} from 'lucide-react';
+
+export const BLOCK_TYPES: { type: BlockType; label: string; icon: React.ElementType }[] = [
+  { type: 'paragraph', label: 'Text', icon: Type },
+  { type: 'heading1', label: 'Heading 1', icon: Heading1 },
+  { type: 'heading2', label: 'Heading 2', icon: Heading2 },
+  { type: 'heading3', label: 'Heading 3', icon: Heading3 },
+  { type: 'bulleted_list', label: 'Bulleted List', icon: List },
+  { type: 'numbered_list', label: 'Numbered List', icon: ListOrdered },
+  { type: 'quote', label: 'Quote', icon: Quote },
+  { type: 'code', label: 'Code', icon: Code },
+  { type: 'divider', label: 'Divider', icon: Minus },
+  { type: 'todo', label: 'To-do', icon: CheckSquare },
+];
+
+export type SlashCommand =
+  | { kind: 'block'; id: string; type: BlockType; label: string; icon: React.ElementType; keywords: string[] }
+  | { kind: 'action'; id: 'duplicate' | 'delete' | 'move_to'; label: string; icon: React.ElementType; keywords: string[] };
+
+const BLOCK_KEYWORDS: Partial<Record<BlockType, string[]>> = {
+  paragraph: ['text', 'plain'],
+  heading1: ['h1', 'title'],
+  heading2: ['h2', 'subtitle'],
+  heading3: ['h3'],
+  bulleted_list: ['ul', 'bullet', 'unordered'],
+  numbered_list: ['ol', 'ordered', 'number'],
+  quote: ['callout', 'blockquote'],
+  code: ['snippet', 'pre'],
+  divider: ['hr', 'separator', 'line'],
+  todo: ['task', 'checkbox', 'check'],
+};
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  ...BLOCK_TYPES.map(({ type, label, icon }) => ({
+    kind: 'block' as const,
+    id: type,
+    type,
+    label,
+    icon,
+    keywords: ['turn into', ...(BLOCK_KEYWORDS[type] ?? [])],
+  })),
+  { kind: 'action', id: 'duplicate', label: 'Duplicate', icon: CopyPlus, keywords: ['copy', 'clone'] },
+  { kind: 'action', id: 'move_to', label: 'Move to', icon: FileInput, keywords: ['page', 'transfer'] },
+  { kind: 'action', id: 'delete', label: 'Delete', icon: Trash2, keywords: ['remove'] },
+];
+
+// Matches on label prefix first, then on label or keyword substrings
+export function filterSlashCommands(query: string): SlashCommand[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return SLASH_COMMANDS;
+
+  const prefix: SlashCommand[] = [];
+  const partial: SlashCommand[] = [];
+
+  for (const command of SLASH_COMMANDS) {
+    const label = command.label.toLowerCase();
+    if (label.startsWith(q)) {
+      prefix.push(command);
+    } else if (label.includes(q) || command.keywords.some((k) => k.includes(q))) {
+      partial.push(command);
+    }
+  }
+
+  return [...prefix, ...partial];
+}
+
+// Markdown prefixes that convert a paragraph as soon as they are typed
+export const MARKDOWN_SHORTCUTS: { trigger: string; type: BlockType }[] = [
+  { trigger: '# ', type: 'heading1' },
+  { trigger: '## ', type: 'heading2' },
+  { trigger: '### ', type: 'heading3' },
+  { trigger: '- ', type: 'bulleted_list' },
+  { trigger: '* ', type: 'bulleted_list' },
+  { trigger: '1. ', type: 'numbered_list' },
+  { trigger: '> ', type: 'quote' },
+  { trigger: '[] ', type: 'todo' },
+  { trigger: '```', type: 'code' },
+  { trigger: '---', type: 'divider' },
+];
+
+export function matchMarkdownShortcut(text: string, caret: number) {
+  // contentEditable inserts a non-breaking space for a trailing space
+  const normalized = text.replace(/\u00a0/g, ' ');
+  return MARKDOWN_SHORTCUTS.find(
+    ({ trigger }) => caret === trigger.length && normalized.startsWith(trigger)
+  ) ?? null;
+}
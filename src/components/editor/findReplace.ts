@@ -0,0 +1,152 @@
+import { Block } from '@/hooks/useBlocks';
+import { PageRefResolver, parseInline, replacePlainText } from '@/lib/richText';
+
+export interface FindOptions {
+  regex: boolean;
+  caseSensitive: boolean;
+}
+
+export interface FindMatch {
+  blockId: string;
+  // Offsets into the block's editable element's textContent, for highlighting
+  start: number;
+  end: number;
+  // Offsets into the stored content's plain text, for replacing
+  plainStart: number;
+  plainEnd: number;
+  text: string;
+  // What the regex captured, and the text it ran on, for expanding $1 etc.
+  captures: (string | undefined)[];
+  groups?: Record<string, string | undefined>;
+  input: string;
+  index: number;
+}
+
+interface BlockText {
+  text: string;
+  // For each offset into text (including its end), the matching offset into
+  // the editable's textContent and into the stored plain text
+  domOffsets: number[];
+  plainOffsets: number[];
+  // Page references, which can't be matched into
+  refs: [number, number][];
+}
+
+// Text as it appears in the editor: page references show their page's current
+// title, and line breaks are <br>s that count for nothing in textContent.
+// Code blocks store raw text.
+function blockText(block: Block, resolvePage?: PageRefResolver): BlockText {
+  if (block.type === 'code') {
+    const offsets = Array.from({ length: block.content.length + 1 }, (_, i) => i);
+    return { text: block.content, domOffsets: offsets, plainOffsets: offsets, refs: [] };
+  }
+
+  const result: BlockText = { text: '', domOffsets: [0], plainOffsets: [0], refs: [] };
+  let dom = 0;
+  let plain = 0;
+  parseInline(block.content).forEach((span) => {
+    if (span.pageRef) {
+      const page = resolvePage ? resolvePage(span.pageRef) : undefined;
+      const title = page ? page.title || 'Untitled' : span.text;
+      const start = result.text.length;
+      result.text += title;
+      for (let i = 1; i <= title.length; i++) {
+        result.domOffsets.push(dom + i);
+        result.plainOffsets.push(i === title.length ? plain + span.text.length : plain);
+      }
+      result.refs.push([start, result.text.length]);
+      dom += title.length;
+      plain += span.text.length;
+      return;
+    }
+    for (const char of span.text) {
+      result.text += char;
+      if (char !== '\n') dom += char.length;
+      plain += char.length;
+      // Astral characters take two offsets; both map past the character
+      for (let i = 0; i < char.length; i++) {
+        result.domOffsets.push(dom);
+        result.plainOffsets.push(plain);
+      }
+    }
+  });
+  return result;
+}
+
+// Compile the query, or return an error message for an invalid pattern
+export function buildMatcher(query: string, options: FindOptions): { matcher: RegExp | null; error: string | null } {
+  if (!query) return { matcher: null, error: null };
+  const source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  try {
+    return { matcher: new RegExp(source, options.caseSensitive ? 'g' : 'gi'), error: null };
+  } catch (err) {
+    return { matcher: null, error: (err as Error).message };
+  }
+}
+
+export function findMatches(blocks: Block[], matcher: RegExp, resolvePage?: PageRefResolver): FindMatch[] {
+  const matches: FindMatch[] = [];
+  blocks.forEach((block) => {
+    if (block.type === 'divider') return;
+    const { text: input, domOffsets, plainOffsets, refs } = blockText(block, resolvePage);
+    for (const match of input.matchAll(matcher)) {
+      // Empty matches (e.g. /x*/) can't be highlighted or replaced
+      if (match[0] === '') continue;
+      const index = match.index!;
+      const end = index + match[0].length;
+      // Page references are atomic: replacing into one would rewrite its
+      // fallback title, so skip matches that touch one
+      if (refs.some(([refStart, refEnd]) => index < refEnd && end > refStart)) continue;
+      matches.push({
+        blockId: block.id,
+        start: domOffsets[index],
+        end: domOffsets[end],
+        plainStart: plainOffsets[index],
+        plainEnd: plainOffsets[end],
+        text: match[0],
+        captures: match.slice(1),
+        groups: match.groups,
+        input,
+        index,
+      });
+    }
+  });
+  return matches;
+}
+
+// Replacement text for one match. In regex mode $1, $<name>, $& etc. expand
+// as in String.prototype.replace, from what the match captured in its block.
+export function expandReplacement(match: FindMatch, replacement: string, options: FindOptions) {
+  if (!options.regex) return replacement;
+  const { captures, groups, input, index, text } = match;
+  return replacement.replace(/\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return text;
+    if (ref === '`') return input.slice(0, index);
+    if (ref === "'") return input.slice(index + text.length);
+    if (name !== undefined) return groups ? groups[name] ?? '' : token;
+    // $nn when there are that many groups, otherwise $n followed by a digit
+    const group = Number(ref);
+    if (ref.length === 2 && group >= 1 && group <= captures.length) return captures[group - 1] ?? '';
+    const single = Number(ref[0]);
+    if (single >= 1 && single <= captures.length) return (captures[single - 1] ?? '') + ref.slice(1);
+    return token;
+  });
+}
+
+// New content for a block with the given matches replaced
+export function replaceInBlock(
+  block: Block,
+  matches: FindMatch[],
+  replacementFor: (match: FindMatch) => string
+): string {
+  // Right to left, so earlier offsets stay valid
+  return [...matches]
+    .sort((a, b) => b.plainStart - a.plainStart)
+    .reduce((content, match) => {
+      const replacement = replacementFor(match);
+      return block.type === 'code'
+        ? content.slice(0, match.plainStart) + replacement + content.slice(match.plainEnd)
+        : replacePlainText(content, match.plainStart, match.plainEnd, replacement);
+    }, block.content);
+}
@@ -0,0 +1,36 @@
+import { PageStatus } from '@/hooks/usePages';
+
+export type StatusColor = 'accent' | 'muted' | 'success' | 'warning';
+
+export const STATUS_OPTIONS: { value: PageStatus; label: string; color: StatusColor }[] = [
+  { value: 'in_progress', label: 'In Progress', color: 'accent' },
+  { value: 'draft', label: 'Draft', color: 'muted' },
+  { value: 'complete', label: 'Complete', color: 'success' },
+  { value: 'archived', label: 'Archived', color: 'warning' },
+];
+
+export const STATUS_DOT_CLASSES: Record<StatusColor, string> = {
+  accent: 'bg-accent',
+  muted: 'bg-muted-foreground',
+  success: 'bg-success',
+  warning: 'bg-warning',
+};
+
+// For SVG shapes, such as nodes in the graph view
+export const STATUS_FILL_CLASSES: Record<StatusColor, string> = {
+  accent: 'fill-accent',
+  muted: 'fill-muted-foreground',
+  success: 'fill-success',
+  warning: 'fill-warning',
+};
+
+export const STATUS_BADGE_CLASSES: Record<StatusColor, string> = {
+  accent: 'border-accent/20 bg-accent/10 text-accent',
+  muted: 'border-border bg-secondary/50 text-muted-foreground',
+  success: 'border-success/20 bg-success/10 text-success',
+  warning: 'border-warning/20 bg-warning/10 text-warning',
+};
+
+export function getStatusOption(status: PageStatus) {
+  return STATUS_OPTIONS.find((o) => o.value === status) ?? STATUS_OPTIONS[0];
+}
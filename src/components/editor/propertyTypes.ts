@@ -0,0 +1,35 @@
+import { format, parseISO } from 'date-fns';
+import { PropertyType, PropertyValue } from '@/hooks/usePageProperties';
+import {
+  AlignLeft,
+  Hash,
+  CircleChevronDown,
+  List,
+  Calendar,
+  User,
+  Link,
+  CheckSquare,
+} from 'lucide-react';
+
+export const PROPERTY_TYPES: { type: PropertyType; label: string; icon: React.ElementType }[] = [
+  { type: 'text', label: 'Text', icon: AlignLeft },
+  { type: 'number', label: 'Number', icon: Hash },
+  { type: 'select', label: 'Select', icon: CircleChevronDown },
+  { type: 'multi_select', label: 'Multi-select', icon: List },
+  { type: 'date', label: 'Date', icon: Calendar },
+  { type: 'person', label: 'Person', icon: User },
+  { type: 'url', label: 'URL', icon: Link },
+  { type: 'checkbox', label: 'Checkbox', icon: CheckSquare },
+];
+
+export function getPropertyTypeIcon(type: PropertyType) {
+  return PROPERTY_TYPES.find((t) => t.type === type)?.icon ?? AlignLeft;
+}
+
+// One-line text for a value, as shown outside its editor
+export function formatPropertyValue(type: PropertyType, value: PropertyValue) {
+  if (Array.isArray(value)) return value.join(', ');
+  if (type === 'checkbox') return value ? 'Yes' : 'No';
+  if (type === 'date' && typeof value === 'string') return format(parseISO(value), 'MMM d, yyyy');
+  return String(value);
+}
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { usePages, Page } from '@/hooks/usePages';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { Archive, ArchiveRestore, ChevronDown, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface ArchiveSectionProps {
+  selectedPageId: string | null;
+  onOpenPage: (pageId: string) => void;
+}
+
+// Sidebar list of archived pages, which are kept out of the main page tree
+// along with everything under them. Each lists its subpages, so those stay
+// reachable whatever their own status.
+export function ArchiveSection({ selectedPageId, onOpenPage }: ArchiveSectionProps) {
+  const { pages, updatePage, getChildPages, getAncestorIds } = usePages();
+  const [isOpen, setIsOpen] = useState(false);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+  const isArchived = (id: string) => pages.some((p) => p.id === id && p.status === 'archived');
+
+  // Archived pages that aren't already listed under an archived ancestor
+  const archived = pages
+    .filter((p) => p.status === 'archived' && !getAncestorIds(p.id).some(isArchived))
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleUnarchive = async (page: Page) => {
+    // updatePage already reports failures
+    const { error } = await updatePage(page.id, { status: 'in_progress' });
+    if (!error) {
+      toast.success('Page moved out of the archive');
+    }
+  };
+
+  const renderArchiveItem = (page: Page, depth: number = 0) => {
+    const children = getChildPages(page.id);
+    const hasChildren = children.length > 0;
+    const isExpanded = expandedIds.has(page.id);
+
+    return (
+      <div key={page.id}>
+        <div
+          className={cn('sidebar-item group', selectedPageId === page.id && 'active')}
+          style={{ paddingLeft: `${8 + depth * 16}px` }}
+          onClick={() => onOpenPage(page.id)}
+        >
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              if (hasChildren) toggleExpanded(page.id);
+            }}
+            className={cn(
+              'p-0.5 hover:bg-sidebar-border rounded text-muted-foreground hover:text-foreground transition-colors',
+              !hasChildren && 'opacity-0'
+            )}
+          >
+            {isExpanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+          </button>
+
+          <div className="flex-1 flex items-center gap-2 min-w-0">
+            {page.icon && <span className="text-sm shrink-0">{page.icon}</span>}
+            <span className={cn('truncate text-sm', page.status === 'archived' && 'text-muted-foreground')}>
+              {page.title || 'Untitled'}
+            </span>
+          </div>
+
+          {page.status === 'archived' && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleUnarchive(page);
+                  }}
+                  className="p-1 hover:bg-sidebar-border rounded text-muted-foreground hover:text-foreground transition-colors opacity-0 group-hover:opacity-100"
+                >
+                  <ArchiveRestore className="w-3.5 h-3.5" />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent side="top" className="text-xs">
+                Unarchive
+              </TooltipContent>
+            </Tooltip>
+          )}
+        </div>
+
+        {hasChildren && isExpanded && children.map((child) => renderArchiveItem(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mb-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-1 px-2 mb-1 text-xs font-medium text-muted-foreground uppercase tracking-wider hover:text-secondary-foreground transition-colors"
+      >
+        <Archive className="w-3.5 h-3.5" />
+        <span className="flex-1 text-left">Archive</span>
+        {archived.length > 0 && <span className="normal-case tracking-normal">{archived.length}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="space-y-0.5 animate-fade-in">
+          {archived.length === 0 ? (
+            <div className="px-2 py-2 text-sm text-muted-foreground text-center">No archived pages</div>
+          ) : (
+            archived.map((page) => renderArchiveItem(page))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
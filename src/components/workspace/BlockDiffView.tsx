@@ -0,0 +1,54 @@
+import { BlockChange, BlockSnapshot, snapshotText } from '@/lib/blockDiff';
+import { BLOCK_TYPES } from '@/components/editor/blockTypes';
+import { cn } from '@/lib/utils';
+
+export function DiffLine({ block, variant }: { block: BlockSnapshot; variant: 'added' | 'removed' | 'unchanged' }) {
+  const label = BLOCK_TYPES.find((t) => t.type === block.type)?.label ?? block.type;
+  return (
+    <div
+      className={cn(
+        'flex items-start gap-2 rounded px-2 py-1 text-sm',
+        variant === 'added' && 'bg-success/10 text-secondary-foreground',
+        variant === 'removed' && 'bg-destructive/10 text-muted-foreground line-through',
+        variant === 'unchanged' && 'text-muted-foreground'
+      )}
+    >
+      <span className="w-3 shrink-0 font-mono text-xs">
+        {variant === 'added' ? '+' : variant === 'removed' ? '−' : ''}
+      </span>
+      <span className={cn('flex-1 whitespace-pre-wrap break-words', block.type === 'code' && 'font-mono text-xs')}>
+        {snapshotText(block)}
+      </span>
+      <span className="shrink-0 text-[10px] text-muted-foreground no-underline">{label}</span>
+    </div>
+  );
+}
+
+interface BlockDiffViewProps {
+  changes: BlockChange[];
+  // Show blocks that didn't change, for context
+  showUnchanged?: boolean;
+}
+
+export function BlockDiffView({ changes, showUnchanged = true }: BlockDiffViewProps) {
+  const visible = showUnchanged ? changes : changes.filter((c) => c.kind !== 'unchanged');
+
+  if (visible.length === 0) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">No differences.</p>;
+  }
+
+  return (
+    <div className="space-y-0.5">
+      {visible.map((change, index) =>
+        change.kind === 'changed' ? (
+          <div key={`${change.after.id}-${index}`}>
+            <DiffLine block={change.before} variant="removed" />
+            <DiffLine block={change.after} variant="added" />
+          </div>
+        ) : (
+          <DiffLine key={`${change.block.id}-${index}`} block={change.block} variant={change.kind} />
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { FormEvent, useState } from 'react';
+import { usePageBranches } from '@/hooks/usePageBranches';
+import { BranchMergeDialog } from './BranchMergeDialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Check, GitBranch, GitMerge, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface BranchMenuProps {
+  pageId: string;
+  // null while on main
+  branchId: string | null;
+  onSelectBranch: (branchId: string | null) => void;
+}
+
+// Status-bar branch selector: switch between main and draft branches of the
+// page, create them, and merge or delete the current one
+export function BranchMenu({ pageId, branchId, onSelectBranch }: BranchMenuProps) {
+  const { branches, createBranch, deleteBranch } = usePageBranches(pageId);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [mergeOpen, setMergeOpen] = useState(false);
+
+  const current = branches.find((b) => b.id === branchId);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    const { data, error } = await createBranch(name.trim() || `draft-${branches.length + 1}`);
+    if (error) {
+      toast.error('Failed to create branch');
+    } else if (data) {
+      setCreating(false);
+      setName('');
+      onSelectBranch(data.id);
+      toast.success(`Switched to new branch ${data.branch_name}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!current) return;
+    const { error } = await deleteBranch(current.id);
+    if (error) {
+      toast.error('Failed to delete branch');
+    } else {
+      onSelectBranch(null);
+      toast.success(`Deleted branch ${current.branch_name}`);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button className="hover:text-secondary-foreground cursor-pointer flex items-center gap-1">
+            <GitBranch className="w-3 h-3" /> {current?.branch_name ?? 'main'}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" side="top" className="w-56">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Branches</DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => onSelectBranch(null)}>
+            <Check className={current ? 'w-4 h-4 mr-2 opacity-0' : 'w-4 h-4 mr-2'} />
+            main
+          </DropdownMenuItem>
+          {branches.map((branch) => (
+            <DropdownMenuItem key={branch.id} onClick={() => onSelectBranch(branch.id)}>
+              <Check className={branch.id === current?.id ? 'w-4 h-4 mr-2' : 'w-4 h-4 mr-2 opacity-0'} />
+              <span className="truncate">{branch.branch_name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setCreating(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New branch
+          </DropdownMenuItem>
+          {current && (
+            <>
+              <DropdownMenuItem onClick={() => setMergeOpen(true)}>
+                <GitMerge className="w-4 h-4 mr-2" />
+                Compare and merge
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleDelete} className="text-destructive focus:text-destructive">
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete branch
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent className="max-w-sm">
+          <form onSubmit={handleCreate} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>New branch</DialogTitle>
+            </DialogHeader>
+            <Input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={`draft-${branches.length + 1}`}
+            />
+            <DialogFooter>
+              <Button type="submit">Create branch</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {current && (
+        <BranchMergeDialog
+          pageId={pageId}
+          branch={current}
+          open={mergeOpen}
+          onOpenChange={setMergeOpen}
+          onMerged={() => onSelectBranch(null)}
+        />
+      )}
+    </>
+  );
+}
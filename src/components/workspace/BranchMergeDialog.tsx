@@ -0,0 +1,148 @@
+import { useMemo, useState } from 'react';
+import { useBlocks } from '@/hooks/useBlocks';
+import { PageBranch, isMergeConflict, usePageBranches } from '@/hooks/usePageBranches';
+import { BlockSnapshot, diffBlocks, snapshotText, toSnapshot } from '@/lib/blockDiff';
+import { ConflictResolution, mergeBranch, toMainIds } from '@/lib/branchMerge';
+import { BlockDiffView } from './BlockDiffView';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, GitMerge } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface BranchMergeDialogProps {
+  pageId: string;
+  branch: PageBranch;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMerged: () => void;
+}
+
+function ConflictSide({
+  label,
+  block,
+  selected,
+  onSelect,
+}: {
+  label: string;
+  block: BlockSnapshot | null;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <button
+      onClick={onSelect}
+      className={cn(
+        'flex-1 min-w-0 rounded-md border px-3 py-2 text-left transition-colors',
+        selected ? 'border-accent bg-accent/10' : 'border-border hover:bg-secondary'
+      )}
+    >
+      <div className="mb-1 text-[10px] uppercase tracking-wider text-muted-foreground">{label}</div>
+      <div className={cn('text-sm whitespace-pre-wrap break-words', !block && 'italic text-muted-foreground')}>
+        {block ? snapshotText(block) : 'Deleted'}
+      </div>
+    </button>
+  );
+}
+
+// Diff of a branch against main, and its merge with conflict resolution
+export function BranchMergeDialog({ pageId, branch, open, onOpenChange, onMerged }: BranchMergeDialogProps) {
+  const { blocks: mainBlocks } = useBlocks(open ? pageId : null);
+  const { blocks: branchBlocks } = useBlocks(open ? branch.id : null);
+  const { mergeBranch: commitMerge } = usePageBranches(pageId);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [merging, setMerging] = useState(false);
+
+  const main = useMemo(() => mainBlocks.map(toSnapshot), [mainBlocks]);
+  const changes = useMemo(() => diffBlocks(main, toMainIds(branchBlocks)), [main, branchBlocks]);
+  const merge = useMemo(
+    () => mergeBranch(branch.branch_base, main, branchBlocks, resolutions),
+    [branch.branch_base, main, branchBlocks, resolutions]
+  );
+  const unresolved = merge.conflicts.filter((c) => !resolutions[c.id]).length;
+
+  const handleMerge = async () => {
+    setMerging(true);
+    const { error } = await commitMerge(branch.id, merge.blocks, main);
+    setMerging(false);
+    if (isMergeConflict(error)) {
+      toast.error('Main changed while merging. Review the updated changes and merge again.');
+    } else if (error) {
+      toast.error('Failed to merge branch');
+    } else {
+      onOpenChange(false);
+      onMerged();
+      toast.success(`Merged ${branch.branch_name} into main`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="w-4 h-4" />
+            Merge {branch.branch_name} into main
+          </DialogTitle>
+          <DialogDescription>Changes on this branch compared with the current main page.</DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="flex-1 min-h-0 pr-3">
+          {merge.conflicts.length > 0 && (
+            <div className="mb-6 space-y-3">
+              <h3 className="flex items-center gap-2 text-sm font-medium text-warning">
+                <AlertTriangle className="w-4 h-4" />
+                {merge.conflicts.length} conflict{merge.conflicts.length === 1 ? '' : 's'}: changed on both main and
+                this branch
+              </h3>
+              {merge.conflicts.map((conflict) => (
+                <div key={conflict.id} className="space-y-1">
+                  <p className="text-xs text-muted-foreground truncate">Was: {snapshotText(conflict.base)}</p>
+                  <div className="flex gap-2">
+                    <ConflictSide
+                      label="Keep main"
+                      block={conflict.main}
+                      selected={resolutions[conflict.id] === 'main'}
+                      onSelect={() => setResolutions((prev) => ({ ...prev, [conflict.id]: 'main' }))}
+                    />
+                    <ConflictSide
+                      label="Use branch"
+                      block={conflict.branch}
+                      selected={resolutions[conflict.id] === 'branch'}
+                      onSelect={() => setResolutions((prev) => ({ ...prev, [conflict.id]: 'branch' }))}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <BlockDiffView changes={changes} showUnchanged={false} />
+        </ScrollArea>
+
+        <DialogFooter className="items-center">
+          {unresolved > 0 && (
+            <span className="mr-auto text-xs text-muted-foreground">
+              Resolve {unresolved} conflict{unresolved === 1 ? '' : 's'} to merge
+            </span>
+          )}
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={merging || unresolved > 0}>
+            <GitMerge className="w-4 h-4 mr-2" />
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,24 +1,22 @@
+import { Link } from 'react-router-dom';
 import { Page } from '@/hooks/usePages';
 import { ChevronRight } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { pagePath } from '@/lib/routes';
 
 interface BreadcrumbsProps {
   ancestors: Page[];
   currentPage: Page;
-  onNavigate: (pageId: string) => void;
 }
 
-export function Breadcrumbs({ ancestors, currentPage, onNavigate }: BreadcrumbsProps) {
+export function Breadcrumbs({ ancestors, currentPage }: BreadcrumbsProps) {
   const allItems = [...ancestors, currentPage];
 
   return (
     <nav className="flex items-center gap-1 text-sm text-muted-foreground overflow-x-auto">
-      <button
-        onClick={() => onNavigate(currentPage.id)}
-        className="hover:text-secondary-foreground transition-colors shrink-0"
-      >
+      <Link to="/" className="hover:text-secondary-foreground transition-colors shrink-0">
         Pages
-      </button>
+      </Link>
 
       {allItems.map((page, index) => {
         const isLast = index === allItems.length - 1;
@@ -26,8 +24,8 @@ export function Breadcrumbs({ ancestors, currentPage, onNavigate }: BreadcrumbsP
         return (
           <div key={page.id} className="flex items-center gap-1 min-w-0">
             <ChevronRight className="w-3.5 h-3.5 text-border shrink-0" />
-            <button
-              onClick={() => onNavigate(page.id)}
+            <Link
+              to={pagePath(page.id)}
               className={cn(
                 'transition-colors truncate max-w-[150px]',
                 isLast
@@ -38,7 +36,7 @@ export function Breadcrumbs({ ancestors, currentPage, onNavigate }: BreadcrumbsP
             >
               {page.icon && <span className="mr-1">{page.icon}</span>}
               {page.title || 'Untitled'}
-            </button>
+            </Link>
           </div>
         );
       })}
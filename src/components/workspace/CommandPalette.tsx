@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { defaultFilter } from 'cmdk';
+import { useAuth } from '@/hooks/useAuth';
+import { usePages, Page } from '@/hooks/usePages';
+import { useBlocks } from '@/hooks/useBlocks';
+import { BLOCK_TYPES } from '@/components/editor/blockTypes';
+import { toPlainText } from '@/lib/richText';
+import { pagePath } from '@/lib/routes';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from '@/components/ui/command';
+import { Clock, FileCode, FolderPlus, LogOut, PlusCircle, Search, Star, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentPageId: string | null;
+  recentPageIds: string[];
+}
+
+// Longest block preview shown in the palette
+const BLOCK_PREVIEW_LENGTH = 80;
+
+// Items match on their keywords (titles, paths, labels) rather than their
+// values, which only need to be unique
+const filterByKeywords = (value: string, search: string, keywords?: string[]) =>
+  defaultFilter(keywords?.join(' ') || value, search);
+
+export function CommandPalette({ open, onOpenChange, currentPageId, recentPageIds }: CommandPaletteProps) {
+  const { signOut } = useAuth();
+  const { pages, getAncestors, createPage, updatePage, trashPage, restorePage } = usePages();
+  const { blocks } = useBlocks(open ? currentPageId : null);
+  const navigate = useNavigate();
+  const [search, setSearch] = useState('');
+
+  const currentPage = pages.find((p) => p.id === currentPageId);
+  const recentPages = recentPageIds
+    .filter((id) => id !== currentPageId)
+    .map((id) => pages.find((p) => p.id === id))
+    .filter((p): p is Page => !!p);
+  const jumpableBlocks = blocks
+    .filter((b) => b.type !== 'divider')
+    .map((b) => ({ block: b, text: toPlainText(b.content).trim() }))
+    .filter(({ text }) => text !== '');
+
+  const getPath = (page: Page) =>
+    getAncestors(page.id)
+      .map((a) => a.title || 'Untitled')
+      .join(' / ');
+
+  // Close first so the palette never stays open over the result of an action
+  const run = (action: () => void | Promise<void>) => {
+    onOpenChange(false);
+    setSearch('');
+    action();
+  };
+
+  const handleCreatePage = async (parentId?: string) => {
+    const { data, error } = await createPage('Untitled', parentId);
+    if (error) {
+      toast.error(parentId ? 'Failed to create subpage' : 'Failed to create page');
+    } else if (data) {
+      navigate(pagePath(data.id));
+      toast.success(parentId ? 'Subpage created' : 'Page created');
+    }
+  };
+
+  const handleTrashPage = async (page: Page) => {
+    const { error } = await trashPage(page.id);
+    if (error) {
+      toast.error('Failed to move page to trash');
+    } else {
+      navigate('/');
+      toast.success('Moved to trash', {
+        action: { label: 'Undo', onClick: () => void restorePage(page.id) },
+      });
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate('/auth');
+    toast.success('Signed out');
+  };
+
+  const renderPageItem = (page: Page, group: string) => {
+    const path = getPath(page);
+    return (
+      <CommandItem
+        key={`${group}-${page.id}`}
+        value={`${group}-${page.id}`}
+        keywords={[page.title || 'Untitled', path]}
+        onSelect={() => run(() => navigate(pagePath(page.id)))}
+      >
+        {page.icon ? (
+          <span className="mr-2 w-4 text-center">{page.icon}</span>
+        ) : (
+          <FileCode className="mr-2 h-4 w-4 text-muted-foreground" />
+        )}
+        <span className="truncate">{page.title || 'Untitled'}</span>
+        {path && <span className="ml-2 truncate text-xs text-muted-foreground">{path}</span>}
+      </CommandItem>
+    );
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} filter={filterByKeywords}>
+      <CommandInput placeholder="Search pages or run a command..." value={search} onValueChange={setSearch} />
+      <CommandList>
+        <CommandEmpty>No results found.</CommandEmpty>
+
+        {!search && recentPages.length > 0 && (
+          <CommandGroup heading="Recent">
+            {recentPages.map((page) => (
+              <CommandItem
+                key={`recent-${page.id}`}
+                value={`recent-${page.id}`}
+                keywords={[page.title || 'Untitled']}
+                onSelect={() => run(() => navigate(pagePath(page.id)))}
+              >
+                <Clock className="mr-2 h-4 w-4 text-muted-foreground" />
+                <span className="truncate">{page.title || 'Untitled'}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {search && <CommandGroup heading="Pages">{pages.map((page) => renderPageItem(page, 'page'))}</CommandGroup>}
+
+        <CommandGroup heading="Actions">
+          {search.trim() && (
+            <CommandItem
+              value="action-search-content"
+              // Always listed while typing, whatever the query
+              keywords={[search]}
+              onSelect={() => run(() => navigate(`/search?q=${encodeURIComponent(search.trim())}`))}
+            >
+              <Search className="mr-2 h-4 w-4" />
+              Search all content for "{search.trim()}"
+            </CommandItem>
+          )}
+          <CommandItem value="action-new-note" keywords={['New Note', 'create page']} onSelect={() => run(() => handleCreatePage())}>
+            <PlusCircle className="mr-2 h-4 w-4" />
+            New Note
+          </CommandItem>
+          {currentPage && (
+            <>
+              <CommandItem
+                value="action-new-subpage"
+                keywords={['New subpage', 'create child page']}
+                onSelect={() => run(() => handleCreatePage(currentPage.id))}
+              >
+                <FolderPlus className="mr-2 h-4 w-4" />
+                New subpage
+              </CommandItem>
+              <CommandItem
+                value="action-toggle-favorite"
+                keywords={['Toggle favorite', 'star']}
+                onSelect={() => run(() => void updatePage(currentPage.id, { is_favorite: !currentPage.is_favorite }))}
+              >
+                <Star className="mr-2 h-4 w-4" />
+                {currentPage.is_favorite ? 'Remove from favorites' : 'Add to favorites'}
+              </CommandItem>
+              <CommandItem
+                value="action-trash-page"
+                keywords={['Move to trash', 'delete page', 'remove']}
+                onSelect={() => run(() => handleTrashPage(currentPage))}
+                className="text-destructive data-[selected=true]:text-destructive"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Move to trash
+              </CommandItem>
+            </>
+          )}
+          <CommandItem value="action-sign-out" keywords={['Sign out', 'log out']} onSelect={() => run(handleSignOut)}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Sign out
+          </CommandItem>
+        </CommandGroup>
+
+        {jumpableBlocks.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Jump to block">
+              {jumpableBlocks.map(({ block, text }) => {
+                const blockType = BLOCK_TYPES.find((t) => t.type === block.type);
+                const Icon = blockType?.icon ?? FileCode;
+                return (
+                  <CommandItem
+                    key={block.id}
+                    value={`block-${block.id}`}
+                    keywords={[text, blockType?.label ?? block.type]}
+                    onSelect={() => run(() => navigate(pagePath(block.page_id, block.id)))}
+                  >
+                    <Icon className="mr-2 h-4 w-4 text-muted-foreground" />
+                    <span className="truncate">{text.slice(0, BLOCK_PREVIEW_LENGTH)}</span>
+                    <span className="ml-auto pl-2 text-xs text-muted-foreground">{blockType?.label}</span>
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          </>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -0,0 +1,349 @@
+import { PointerEvent, WheelEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { usePages } from '@/hooks/usePages';
+import { usePageLinks } from '@/hooks/usePageLinks';
+import { usePageTags } from '@/hooks/usePageTags';
+import { STATUS_DOT_CLASSES, STATUS_FILL_CLASSES, STATUS_OPTIONS, getStatusOption } from '@/components/editor/pageStatus';
+import { GraphPoint, buildPageEdges, layoutGraph, neighbourhood } from '@/lib/pageGraph';
+import { pagePath } from '@/lib/routes';
+import { cn } from '@/lib/utils';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Maximize, Network, ZoomIn, ZoomOut } from 'lucide-react';
+
+type ColorBy = 'status' | 'tag';
+
+interface View {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+const WHOLE_WORKSPACE = 'all';
+const DEPTHS = [1, 2, 3, 4];
+const DEFAULT_DEPTH = 2;
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 5;
+const ZOOM_STEP = 1.25;
+const GRAPH_PADDING = 60;
+// Labels are hidden when zoomed out further than this, except the focus's
+const LABEL_MIN_SCALE = 0.6;
+const IDENTITY: View = { x: 0, y: 0, scale: 1 };
+
+// The most used tags get a colour each; other pages are drawn grey
+const TAG_FILL_CLASSES = ['fill-sky-500', 'fill-violet-500', 'fill-emerald-500', 'fill-amber-500', 'fill-rose-500', 'fill-teal-500'];
+const TAG_DOT_CLASSES = ['bg-sky-500', 'bg-violet-500', 'bg-emerald-500', 'bg-amber-500', 'bg-rose-500', 'bg-teal-500'];
+const UNTAGGED_FILL_CLASS = 'fill-muted-foreground/40';
+
+// Pages and the links between them, optionally narrowed to the pages around
+// one page. Click a page to open it; drag to pan and scroll to zoom.
+export function GraphView() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { pages } = usePages();
+  const { links } = usePageLinks();
+  const { tags, getPageTags } = usePageTags();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const panStart = useRef<{ point: GraphPoint; view: View } | null>(null);
+  const [view, setView] = useState<View>(IDENTITY);
+
+  const focusPage = pages.find((p) => p.id === searchParams.get('focus')) ?? null;
+  const depthParam = Number(searchParams.get('depth'));
+  const depth = DEPTHS.includes(depthParam) ? depthParam : DEFAULT_DEPTH;
+  const colorBy: ColorBy = searchParams.get('color') === 'tag' ? 'tag' : 'status';
+
+  const updateParam = useCallback(
+    (key: string, value: string | null) => {
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          if (value) {
+            next.set(key, value);
+          } else {
+            next.delete(key);
+          }
+          return next;
+        },
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
+
+  const edges = useMemo(() => buildPageEdges(pages, links), [pages, links]);
+
+  const { nodes, visibleEdges } = useMemo(() => {
+    const visible = focusPage ? neighbourhood(edges, focusPage.id, depth) : null;
+    return {
+      nodes: visible ? pages.filter((p) => visible.has(p.id)) : pages,
+      visibleEdges: visible ? edges.filter((e) => visible.has(e.source) && visible.has(e.target)) : edges,
+    };
+  }, [pages, edges, focusPage, depth]);
+
+  // Relayout only when the set of nodes or edges changes, not on renames:
+  // the layout's inputs are rebuilt from keys that only change with those
+  const nodeKey = nodes.map((n) => n.id).join(',');
+  const edgeKey = visibleEdges.map((e) => `${e.source}>${e.target}`).join(',');
+  const layoutIds = useMemo(() => (nodeKey ? nodeKey.split(',') : []), [nodeKey]);
+  const layoutEdges = useMemo(
+    () =>
+      edgeKey
+        ? edgeKey.split(',').map((key) => {
+            const [source, target] = key.split('>');
+            return { source, target };
+          })
+        : [],
+    [edgeKey]
+  );
+  const positions = useMemo(() => layoutGraph(layoutIds, layoutEdges), [layoutIds, layoutEdges]);
+
+  // A new layout starts out fitted to the viewport
+  useEffect(() => {
+    setView(IDENTITY);
+  }, [positions]);
+
+  const degrees = new Map<string, number>();
+  visibleEdges.forEach(({ source, target }) => {
+    degrees.set(source, (degrees.get(source) ?? 0) + 1);
+    degrees.set(target, (degrees.get(target) ?? 0) + 1);
+  });
+
+  const points = Array.from(positions.values());
+  const minX = Math.min(0, ...points.map((p) => p.x)) - GRAPH_PADDING;
+  const minY = Math.min(0, ...points.map((p) => p.y)) - GRAPH_PADDING;
+  const maxX = Math.max(0, ...points.map((p) => p.x)) + GRAPH_PADDING;
+  const maxY = Math.max(0, ...points.map((p) => p.y)) + GRAPH_PADDING;
+
+  const tagColors = tags.slice(0, TAG_FILL_CLASSES.length).map(({ tag }, i) => ({
+    tag,
+    fill: TAG_FILL_CLASSES[i],
+    dot: TAG_DOT_CLASSES[i],
+  }));
+
+  const nodeFill = (pageId: string, status: (typeof pages)[number]['status']) => {
+    if (colorBy === 'status') return STATUS_FILL_CLASSES[getStatusOption(status).color];
+    const pageTags = new Set(getPageTags(pageId).map((t) => t.tag));
+    return tagColors.find(({ tag }) => pageTags.has(tag))?.fill ?? UNTAGGED_FILL_CLASS;
+  };
+
+  const toGraphPoint = (clientX: number, clientY: number): GraphPoint => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return { x: 0, y: 0 };
+    const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+    return { x: point.x, y: point.y };
+  };
+
+  // Zoom keeping `point` (in viewBox units) where it is on screen
+  const zoomAt = (point: GraphPoint, factor: number) => {
+    setView((prev) => {
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, prev.scale * factor));
+      const ratio = scale / prev.scale;
+      return { scale, x: point.x - (point.x - prev.x) * ratio, y: point.y - (point.y - prev.y) * ratio };
+    });
+  };
+
+  const zoomAtCenter = (factor: number) => zoomAt({ x: (minX + maxX) / 2, y: (minY + maxY) / 2 }, factor);
+
+  const handleWheel = (e: WheelEvent<SVGSVGElement>) => {
+    zoomAt(toGraphPoint(e.clientX, e.clientY), e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP);
+  };
+
+  const handlePointerDown = (e: PointerEvent<SVGSVGElement>) => {
+    if ((e.target as Element).closest('[data-graph-node]')) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panStart.current = { point: toGraphPoint(e.clientX, e.clientY), view };
+  };
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    const start = panStart.current;
+    if (!start) return;
+    const point = toGraphPoint(e.clientX, e.clientY);
+    setView({ ...start.view, x: start.view.x + point.x - start.point.x, y: start.view.y + point.y - start.point.y });
+  };
+
+  const handlePointerUp = () => {
+    panStart.current = null;
+  };
+
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+
+  return (
+    <main className="flex-1 flex flex-col h-full bg-background relative">
+      <header className="border-b border-border/40 px-6 py-3 bg-background/80 backdrop-blur-sm sticky top-0 z-10 flex flex-wrap items-center gap-2">
+        <h1 className="flex items-center gap-2 text-sm font-medium text-secondary-foreground mr-auto">
+          <Network className="w-4 h-4 text-muted-foreground" />
+          Graph
+          <span className="text-xs font-normal text-muted-foreground">
+            {nodes.length} page{nodes.length === 1 ? '' : 's'}
+          </span>
+        </h1>
+
+        <Select
+          value={focusPage?.id ?? WHOLE_WORKSPACE}
+          onValueChange={(value) => updateParam('focus', value === WHOLE_WORKSPACE ? null : value)}
+        >
+          <SelectTrigger className="h-8 w-48 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={WHOLE_WORKSPACE}>Whole workspace</SelectItem>
+            {pages.map((page) => (
+              <SelectItem key={page.id} value={page.id}>
+                {page.icon ? `${page.icon} ` : ''}
+                {page.title || 'Untitled'}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {focusPage && (
+          <Select value={String(depth)} onValueChange={(value) => updateParam('depth', value)}>
+            <SelectTrigger className="h-8 w-28 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DEPTHS.map((d) => (
+                <SelectItem key={d} value={String(d)}>
+                  {d} {d === 1 ? 'step' : 'steps'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <Select value={colorBy} onValueChange={(value) => updateParam('color', value === 'status' ? null : value)}>
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="status">Colour by status</SelectItem>
+            <SelectItem value="tag">Colour by tag</SelectItem>
+          </SelectContent>
+        </Select>
+      </header>
+
+      <div className="flex-1 relative overflow-hidden">
+        {nodes.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">No pages to show.</p>
+        ) : (
+          <svg
+            ref={svgRef}
+            viewBox={`${minX} ${minY} ${maxX - minX} ${maxY - minY}`}
+            className="w-full h-full cursor-grab active:cursor-grabbing touch-none select-none"
+            onWheel={handleWheel}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+              {visibleEdges.map(({ source, target, kind }) => {
+                const from = positions.get(source);
+                const to = positions.get(target);
+                if (!from || !to) return null;
+                return (
+                  <line
+                    key={`${source}>${target}`}
+                    x1={from.x}
+                    y1={from.y}
+                    x2={to.x}
+                    y2={to.y}
+                    strokeWidth={1 / Math.sqrt(view.scale)}
+                    strokeDasharray={kind === 'parent' ? '4 3' : undefined}
+                    className={kind === 'parent' ? 'stroke-muted-foreground/40' : 'stroke-accent/50'}
+                  />
+                );
+              })}
+              {Array.from(positions, ([id, { x, y }]) => {
+                const page = byId.get(id);
+                if (!page) return null;
+                const radius = 5 + Math.sqrt(degrees.get(id) ?? 0) * 2;
+                const isFocus = id === focusPage?.id;
+                return (
+                  <g
+                    key={id}
+                    data-graph-node
+                    transform={`translate(${x} ${y})`}
+                    onClick={() => navigate(pagePath(id))}
+                    className="cursor-pointer group"
+                  >
+                    <title>{page.title || 'Untitled'}</title>
+                    <circle
+                      r={radius}
+                      strokeWidth={isFocus ? 2 : 0}
+                      className={cn(nodeFill(id, page.status), 'stroke-foreground group-hover:opacity-80 transition-opacity')}
+                    />
+                    {(view.scale >= LABEL_MIN_SCALE || isFocus) && (
+                      <text
+                        y={radius + 11}
+                        textAnchor="middle"
+                        className={cn(
+                          'text-[10px] pointer-events-none',
+                          isFocus ? 'fill-foreground font-medium' : 'fill-muted-foreground group-hover:fill-foreground'
+                        )}
+                      >
+                        {page.icon ? `${page.icon} ` : ''}
+                        {page.title || 'Untitled'}
+                      </text>
+                    )}
+                  </g>
+                );
+              })}
+            </g>
+          </svg>
+        )}
+
+        {/* Legend */}
+        <div className="absolute left-4 bottom-4 rounded-md border border-border bg-background/90 px-3 py-2 space-y-1 text-xs text-muted-foreground">
+          {colorBy === 'status'
+            ? STATUS_OPTIONS.map(({ value, label, color }) => (
+                <div key={value} className="flex items-center gap-2">
+                  <span className={cn('w-2 h-2 rounded-full', STATUS_DOT_CLASSES[color])} />
+                  {label}
+                </div>
+              ))
+            : tagColors.map(({ tag, dot }) => (
+                <div key={tag} className="flex items-center gap-2">
+                  <span className={cn('w-2 h-2 rounded-full', dot)} />#{tag}
+                </div>
+              ))}
+          {colorBy === 'tag' && (
+            <div className="flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full bg-muted-foreground/40" />
+              {tagColors.length > 0 ? 'Other' : 'No tags'}
+            </div>
+          )}
+          <div className="flex items-center gap-2 pt-1 border-t border-border/60">
+            <span className="w-4 border-t border-dashed border-muted-foreground/60" />
+            Subpage
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="w-4 border-t border-accent/60" />
+            Link
+          </div>
+        </div>
+
+        {/* Zoom controls */}
+        <div className="absolute right-4 bottom-4 flex flex-col rounded-md border border-border bg-background/90">
+          <button
+            onClick={() => zoomAtCenter(ZOOM_STEP)}
+            className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => zoomAtCenter(1 / ZOOM_STEP)}
+            className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setView(IDENTITY)}
+            className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+          >
+            <Maximize className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,33 @@
+import { useNavigate } from 'react-router-dom';
+import { FileQuestion } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+export function PageNotFound() {
+  const navigate = useNavigate();
+
+  return (
+    <main className="flex-1 flex flex-col h-full bg-background">
+      <div className="flex-1 flex items-center justify-center">
+        <div className="text-center animate-fade-in">
+          <div className="w-16 h-16 mx-auto mb-6 rounded-xl bg-secondary border border-border flex items-center justify-center">
+            <FileQuestion className="w-8 h-8 text-muted-foreground" />
+          </div>
+          <h2 className="text-xl font-medium text-primary mb-2">
+            Page not found
+          </h2>
+          <p className="text-muted-foreground mb-6 max-w-sm">
+            This page doesn't exist, was deleted, or you don't have access to it.
+          </p>
+          <Button variant="secondary" onClick={() => navigate('/')}>
+            Back to workspace
+          </Button>
+        </div>
+      </div>
+
+      {/* Footer Status Bar */}
+      <footer className="h-8 border-t border-border bg-background flex items-center justify-center px-4 text-[10px] text-muted-foreground font-mono tracking-wide select-none">
+        <span>Not found</span>
+      </footer>
+    </main>
+  );
+}
@@ -1,27 +1,47 @@
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Page, usePages } from '@/hooks/usePages';
+import { useAutoSnapshot } from '@/hooks/usePageVersions';
+import { usePageBranches } from '@/hooks/usePageBranches';
 import { PageHeader } from '@/components/editor/PageHeader';
 import { BlockEditor } from '@/components/editor/BlockEditor';
+import { PageBacklinks } from '@/components/editor/PageBacklinks';
 import { Breadcrumbs } from '@/components/workspace/Breadcrumbs';
+import { VersionHistory } from '@/components/workspace/VersionHistory';
+import { BranchMenu } from '@/components/workspace/BranchMenu';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { PanelLeft, Share, MoreHorizontal, GitBranch, Plus } from 'lucide-react';
+import { PanelLeft, Share, MoreHorizontal, GitBranch, Plus, History } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { toast } from 'sonner';
+import { pagePath } from '@/lib/routes';
 
 interface PageViewProps {
   page: Page;
-  onUpdatePage: (id: string, updates: Partial<Pick<Page, 'title' | 'icon' | 'cover_image'>>) => Promise<{ data: Page | null; error: Error | null }>;
-  onSelectPage: (pageId: string) => void;
+  onUpdatePage: (id: string, updates: Partial<Pick<Page, 'title' | 'icon' | 'cover_image' | 'status'>>) => Promise<{ data: Page | null; error: Error | null }>;
 }
 
-export function PageView({ page, onUpdatePage, onSelectPage }: PageViewProps) {
+export function PageView({ page, onUpdatePage }: PageViewProps) {
   const { getAncestors, createPage } = usePages();
+  const navigate = useNavigate();
   const [lastEdited, setLastEdited] = useState<string>('Just now');
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { branches } = usePageBranches(page.id);
+  // The branch being edited, if any; kept in the URL so it survives reloads
+  const branch = branches.find((b) => b.id === searchParams.get('branch'));
+  const branchId = branch?.id ?? null;
   const ancestors = getAncestors(page.id);
+  useAutoSnapshot(page.id);
 
   useEffect(() => {
     const updateTime = new Date(page.updated_at);
@@ -44,22 +64,22 @@ export function PageView({ page, onUpdatePage, onSelectPage }: PageViewProps) {
     if (error) {
       toast.error('Failed to create subpage');
     } else if (data) {
-      onSelectPage(data.id);
+      navigate(pagePath(data.id));
       toast.success('Subpage created');
     }
   };
 
+  const handleSelectBranch = (id: string | null) => {
+    setSearchParams(id ? { branch: id } : {}, { replace: true });
+  };
+
   return (
     <main className="flex-1 flex flex-col h-full bg-background relative">
       {/* Header with Breadcrumbs */}
       <header className="h-14 border-b border-border/40 flex items-center justify-between px-6 bg-background/80 backdrop-blur-sm sticky top-0 z-10">
         <div className="flex items-center gap-2 min-w-0 flex-1">
           <PanelLeft className="w-4 h-4 mr-2 text-muted-foreground cursor-pointer md:hidden hover:text-foreground transition-colors shrink-0" />
-          <Breadcrumbs
-            ancestors={ancestors}
-            currentPage={page}
-            onNavigate={onSelectPage}
-          />
+          <Breadcrumbs ancestors={ancestors} currentPage={page} />
         </div>
 
         <div className="flex items-center gap-2 shrink-0">
@@ -80,9 +100,19 @@ export function PageView({ page, onUpdatePage, onSelectPage }: PageViewProps) {
           <button className="text-muted-foreground hover:text-foreground transition-colors p-1.5 hover:bg-secondary rounded">
             <Share className="w-4 h-4" />
           </button>
-          <button className="text-muted-foreground hover:text-foreground transition-colors p-1.5 hover:bg-secondary rounded">
-            <MoreHorizontal className="w-4 h-4" />
-          </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button className="text-muted-foreground hover:text-foreground transition-colors p-1.5 hover:bg-secondary rounded">
+                <MoreHorizontal className="w-4 h-4" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-48">
+              <DropdownMenuItem onClick={() => setHistoryOpen(true)}>
+                <History className="w-4 h-4 mr-2" />
+                Version history
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </header>
 
@@ -90,16 +120,22 @@ export function PageView({ page, onUpdatePage, onSelectPage }: PageViewProps) {
       <ScrollArea className="flex-1">
         <div className="max-w-3xl mx-auto px-8 py-12">
           <PageHeader page={page} onUpdatePage={onUpdatePage} />
-          <BlockEditor pageId={page.id} />
+          {branch && (
+            <div className="mb-6 flex items-center gap-2 rounded-md border border-accent/30 bg-accent/5 px-3 py-2 text-xs text-muted-foreground">
+              <GitBranch className="w-3.5 h-3.5 text-accent" />
+              Editing branch <span className="font-mono text-secondary-foreground">{branch.branch_name}</span>.
+              Changes stay off main until you merge them.
+            </div>
+          )}
+          <BlockEditor key={branchId ?? page.id} pageId={branchId ?? page.id} />
+          <PageBacklinks page={page} />
         </div>
       </ScrollArea>
 
       {/* Footer Status Bar */}
       <footer className="h-8 border-t border-border bg-background flex items-center justify-between px-4 text-[10px] text-muted-foreground font-mono tracking-wide select-none">
         <div className="flex gap-4">
-          <span className="hover:text-secondary-foreground cursor-pointer flex items-center gap-1">
-            <GitBranch className="w-3 h-3" /> main
-          </span>
+          <BranchMenu pageId={page.id} branchId={branchId} onSelectBranch={handleSelectBranch} />
           <span className="hidden sm:inline">UTF-8</span>
         </div>
         <div className="flex gap-4">
@@ -110,6 +146,8 @@ export function PageView({ page, onUpdatePage, onSelectPage }: PageViewProps) {
           </span>
         </div>
       </footer>
+
+      <VersionHistory page={page} open={historyOpen} onOpenChange={setHistoryOpen} />
     </main>
   );
 }
@@ -0,0 +1,283 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { BlockType } from '@/hooks/useBlocks';
+import { Page, PageStatus, usePages } from '@/hooks/usePages';
+import { SearchHit, useSearch } from '@/hooks/useSearch';
+import { usePageProperties } from '@/hooks/usePageProperties';
+import { BLOCK_TYPES } from '@/components/editor/blockTypes';
+import { STATUS_DOT_CLASSES, STATUS_OPTIONS } from '@/components/editor/pageStatus';
+import { pagePath } from '@/lib/routes';
+import { decodePropertyFilter, encodePropertyFilter, propertyFilterChoices } from '@/lib/pageProperties';
+import { cn } from '@/lib/utils';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { FileCode, Loader2, Search, Type } from 'lucide-react';
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 250;
+
+const ALL_TYPES = 'all';
+const ALL_STATUSES = 'all';
+const ANY_PROPERTY = 'any';
+
+const SEARCHABLE_TYPES = BLOCK_TYPES.filter((t) => t.type !== 'divider');
+
+// Split a snippet on its <mark> tags and render matches highlighted. The text
+// is rendered as React children, never as HTML.
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/<mark>|<\/mark>/);
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-accent/25 text-primary rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export function SearchView() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { pages, getAncestors } = usePages();
+  const { properties } = usePageProperties();
+
+  const query = searchParams.get('q') ?? '';
+  const blockType = (searchParams.get('type') as BlockType | null) ?? null;
+  const status = (searchParams.get('status') as PageStatus | null) ?? null;
+  const property = searchParams.get('property');
+  const from = searchParams.get('from') ?? '';
+  const to = searchParams.get('to') ?? '';
+
+  const [input, setInput] = useState(query);
+
+  // The URL holds the search and its filters, so results can be shared
+  const updateParam = useCallback(
+    (key: string, value: string | null) => {
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          if (value) {
+            next.set(key, value);
+          } else {
+            next.delete(key);
+          }
+          return next;
+        },
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
+
+  useEffect(() => {
+    setInput(query);
+  }, [query]);
+
+  useEffect(() => {
+    if (input === query) return;
+    const timeout = window.setTimeout(() => updateParam('q', input || null), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [input, query, updateParam]);
+
+  const filters = useMemo(
+    () => ({
+      blockTypes: blockType ? [blockType] : undefined,
+      statuses: status ? [status] : undefined,
+      property: (property && decodePropertyFilter(property)) || undefined,
+      from: from ? new Date(`${from}T00:00`).toISOString() : undefined,
+      // The "to" date is inclusive in the UI, so search up to the next local midnight
+      to: to ? new Date(new Date(`${to}T00:00`).setDate(new Date(`${to}T00:00`).getDate() + 1)).toISOString() : undefined,
+    }),
+    [blockType, status, property, from, to]
+  );
+
+  const { hits, loading } = useSearch(query, filters);
+
+  // Group hits by page, keeping the order of each page's best hit
+  const groups = useMemo(() => {
+    const byPage = new Map<string, SearchHit[]>();
+    hits.forEach((hit) => {
+      byPage.set(hit.page_id, [...(byPage.get(hit.page_id) ?? []), hit]);
+    });
+    return Array.from(byPage)
+      .map(([pageId, pageHits]) => ({ page: pages.find((p) => p.id === pageId), hits: pageHits }))
+      .filter((group): group is { page: Page; hits: SearchHit[] } => !!group.page);
+  }, [hits, pages]);
+
+  return (
+    <main className="flex-1 flex flex-col h-full bg-background relative">
+      {/* Search bar and filters */}
+      <header className="border-b border-border/40 px-6 py-3 bg-background/80 backdrop-blur-sm sticky top-0 z-10 space-y-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            autoFocus
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Search block content and page titles..."
+            className="pl-9 h-10 bg-secondary border-border"
+          />
+          {loading && (
+            <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground animate-spin" />
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <Select value={blockType ?? ALL_TYPES} onValueChange={(value) => updateParam('type', value === ALL_TYPES ? null : value)}>
+            <SelectTrigger className="h-8 w-40 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TYPES}>All blocks and titles</SelectItem>
+              {SEARCHABLE_TYPES.map(({ type, label }) => (
+                <SelectItem key={type} value={type}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={status ?? ALL_STATUSES} onValueChange={(value) => updateParam('status', value === ALL_STATUSES ? null : value)}>
+            <SelectTrigger className="h-8 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STATUSES}>Any status</SelectItem>
+              {STATUS_OPTIONS.map(({ value, label, color }) => (
+                <SelectItem key={value} value={value}>
+                  <span className="flex items-center gap-2">
+                    <span className={cn('w-1.5 h-1.5 rounded-full', STATUS_DOT_CLASSES[color])} />
+                    {label}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {properties.length > 0 && (
+            <Select value={property ?? ANY_PROPERTY} onValueChange={(value) => updateParam('property', value === ANY_PROPERTY ? null : value)}>
+              <SelectTrigger className="h-8 w-44 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_PROPERTY}>Any properties</SelectItem>
+                {propertyFilterChoices(properties).map(({ label, filter }) => (
+                  <SelectItem key={encodePropertyFilter(filter)} value={encodePropertyFilter(filter)}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <label className="flex items-center gap-1.5">
+            From
+            <Input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => updateParam('from', e.target.value || null)}
+              className="h-8 w-36 text-xs"
+            />
+          </label>
+          <label className="flex items-center gap-1.5">
+            To
+            <Input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => updateParam('to', e.target.value || null)}
+              className="h-8 w-36 text-xs"
+            />
+          </label>
+        </div>
+      </header>
+
+      {/* Results */}
+      <ScrollArea className="flex-1">
+        <div className="max-w-3xl mx-auto px-8 py-8 space-y-6">
+          {!query.trim() ? (
+            <p className="text-center text-muted-foreground py-12">
+              Type to search across every page and block.
+            </p>
+          ) : groups.length === 0 && !loading ? (
+            <p className="text-center text-muted-foreground py-12">
+              No results for "{query.trim()}".
+            </p>
+          ) : (
+            groups.map(({ page, hits: pageHits }) => {
+              const path = getAncestors(page.id).map((a) => a.title || 'Untitled');
+              return (
+                <section key={page.id} className="animate-fade-in">
+                  <button
+                    onClick={() => navigate(pagePath(page.id))}
+                    className="flex items-center gap-2 mb-1 text-left hover:text-primary transition-colors"
+                  >
+                    {page.icon ? (
+                      <span className="text-sm">{page.icon}</span>
+                    ) : (
+                      <FileCode className="w-4 h-4 text-accent" />
+                    )}
+                    <span className="font-medium text-secondary-foreground">{page.title || 'Untitled'}</span>
+                  </button>
+                  {path.length > 0 && (
+                    <p className="text-xs text-muted-foreground mb-2 truncate">{path.join(' / ')}</p>
+                  )}
+
+                  <ul className="space-y-1">
+                    {pageHits.map((hit) => {
+                      const type = BLOCK_TYPES.find((t) => t.type === hit.block_type);
+                      const Icon = type?.icon ?? Type;
+                      return (
+                        <li key={hit.block_id ?? `title-${hit.page_id}`}>
+                          <button
+                            onClick={() => navigate(pagePath(hit.page_id, hit.block_id ?? undefined))}
+                            className="w-full flex items-start gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-secondary transition-colors"
+                          >
+                            <Icon className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+                            <span
+                              className={
+                                hit.block_type === 'code'
+                                  ? 'font-mono text-xs text-secondary-foreground break-all'
+                                  : 'text-secondary-foreground'
+                              }
+                            >
+                              <Snippet text={hit.snippet} />
+                            </span>
+                            <span className="ml-auto pl-2 shrink-0 text-[10px] text-muted-foreground">
+                              {hit.block_id ? type?.label : 'Title'}
+                            </span>
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </section>
+              );
+            })
+          )}
+        </div>
+      </ScrollArea>
+
+      {/* Footer Status Bar */}
+      <footer className="h-8 border-t border-border bg-background flex items-center justify-center px-4 text-[10px] text-muted-foreground font-mono tracking-wide select-none">
+        <span>
+          {query.trim() ? `${hits.length} result${hits.length === 1 ? '' : 's'}` : 'Search'}
+        </span>
+      </footer>
+    </main>
+  );
+}
@@ -1,13 +1,22 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
-import { usePages, Page } from '@/hooks/usePages';
+import { usePages, Page, PageStatus } from '@/hooks/usePages';
+import { usePageProperties } from '@/hooks/usePageProperties';
+import { usePageTags } from '@/hooks/usePageTags';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import {
@@ -31,22 +40,103 @@ import {
   File,
   FolderPlus,
   ArrowUpRight,
+  ListFilter,
+  SlidersHorizontal,
+  ArrowUpDown,
+  Network,
 } from 'lucide-react';
+import { TrashSection } from './TrashSection';
+import { ArchiveSection } from './ArchiveSection';
+import { STATUS_DOT_CLASSES, STATUS_OPTIONS, getStatusOption } from '@/components/editor/pageStatus';
 import { cn } from '@/lib/utils';
+import { graphPath, pagePath, tagPath } from '@/lib/routes';
+import {
+  PropertyFilter,
+  comparePropertyValues,
+  decodePropertyFilter,
+  encodePropertyFilter,
+  matchesPropertyFilter,
+  propertyFilterChoices,
+} from '@/lib/pageProperties';
 import { toast } from 'sonner';
 
+// Sort keys besides property ids
+const SORT_MANUAL = 'manual';
+const SORT_TITLE = 'title';
+const NO_PROPERTY_FILTER = 'none';
+
 interface SidebarProps {
   selectedPageId: string | null;
-  onSelectPage: (pageId: string) => void;
+  selectedTag: string | null;
+  isGraphOpen: boolean;
+  onOpenSearch: () => void;
 }
 
-export function Sidebar({ selectedPageId, onSelectPage }: SidebarProps) {
+export function Sidebar({ selectedPageId, selectedTag, isGraphOpen, onOpenSearch }: SidebarProps) {
   const { user, signOut } = useAuth();
-  const { pages, rootPages, createPage, updatePage, deletePage, getChildPages, getAncestorIds, loading } = usePages();
+  const { pages, rootPages, createPage, updatePage, trashPage, restorePage, getChildPages, getAncestorIds, loading } =
+    usePages();
   const navigate = useNavigate();
   const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const { properties, getPageValues } = usePageProperties();
+  const { tags } = usePageTags();
+  const [statusFilter, setStatusFilter] = useState<PageStatus[]>([]);
+  const [propertyFilter, setPropertyFilter] = useState<PropertyFilter | null>(null);
+  const [sortBy, setSortBy] = useState(SORT_MANUAL);
+  const [sortDescending, setSortDescending] = useState(false);
+
+  const favoritePages = pages.filter((p) => p.is_favorite && p.status !== 'archived');
+
+  // Archived pages, and everything under them, live in the Archive section
+  const isInTree = (page: Page) => page.status !== 'archived';
+
+  // Filters and sorts on a property that was since deleted are dropped
+  const activePropertyFilter =
+    propertyFilter && properties.some((p) => p.id === propertyFilter.propertyId) ? propertyFilter : null;
+  const sortProperty = properties.find((p) => p.id === sortBy);
+  const isSorted = sortBy === SORT_TITLE || !!sortProperty;
+  const isFiltered = statusFilter.length > 0 || !!activePropertyFilter;
+
+  // Orders siblings in the tree and the filtered list; manual keeps the
+  // dragged order
+  const sortPages = (list: Page[]) => {
+    if (!isSorted) return list;
+    const byTitle = (a: Page, b: Page) => (a.title || 'Untitled').localeCompare(b.title || 'Untitled');
+    const direction = sortDescending ? 'desc' : 'asc';
+    return [...list].sort((a, b) => {
+      if (!sortProperty) return sortDescending ? byTitle(b, a) : byTitle(a, b);
+      const order = comparePropertyValues(
+        sortProperty,
+        getPageValues(a.id)[sortProperty.id],
+        getPageValues(b.id)[sortProperty.id],
+        direction
+      );
+      return order || byTitle(a, b);
+    });
+  };
+
+  const treeRootPages = sortPages(rootPages.filter(isInTree));
 
-  const favoritePages = pages.filter((p) => p.is_favorite);
+  // With a filter on, the tree gives way to a flat list of matches
+  const filteredPages = isFiltered
+    ? sortPages(
+        pages
+          .filter((p) => !statusFilter.length || statusFilter.includes(p.status))
+          .filter((p) => !activePropertyFilter || matchesPropertyFilter(getPageValues(p.id), activePropertyFilter))
+          .sort((a, b) => (a.title || 'Untitled').localeCompare(b.title || 'Untitled'))
+      )
+    : [];
+
+  const clearFilters = () => {
+    setStatusFilter([]);
+    setPropertyFilter(null);
+  };
+
+  const toggleStatusFilter = (status: PageStatus) => {
+    setStatusFilter((prev) => (prev.includes(status) ? prev.filter((s) => s !== status) : [...prev, status]));
+  };
+
+  const openPage = (pageId: string) => navigate(pagePath(pageId));
 
   // Auto-expand parent pages when selecting a nested page
   useEffect(() => {
@@ -80,7 +170,7 @@ export function Sidebar({ selectedPageId, onSelectPage }: SidebarProps) {
     if (error) {
       toast.error('Failed to create page');
     } else if (data) {
-      onSelectPage(data.id);
+      openPage(data.id);
       toast.success('Page created');
     }
   };
@@ -93,33 +183,35 @@ export function Sidebar({ selectedPageId, onSelectPage }: SidebarProps) {
     } else if (data) {
       // Expand parent to show new subpage
       setExpandedIds((prev) => new Set(prev).add(parentId));
-      onSelectPage(data.id);
+      openPage(data.id);
       toast.success('Subpage created');
     }
   };
 
-  const handleDeletePage = async (pageId: string, e?: React.MouseEvent) => {
+  const handleTrashPage = async (pageId: string, e?: React.MouseEvent) => {
     e?.stopPropagation();
-    const { error } = await deletePage(pageId);
+    const { data, error } = await trashPage(pageId);
     if (error) {
-      toast.error('Failed to delete page');
+      toast.error('Failed to move page to trash');
     } else {
-      if (selectedPageId === pageId) {
-        const remaining = pages.filter((p) => p.id !== pageId);
+      const trashedIds = new Set<string>(data || [pageId]);
+      if (selectedPageId && trashedIds.has(selectedPageId)) {
+        const remaining = pages.filter((p) => !trashedIds.has(p.id));
         if (remaining.length > 0) {
-          onSelectPage(remaining[0].id);
+          openPage(remaining[0].id);
+        } else {
+          navigate('/');
         }
       }
-      toast.success('Page deleted');
+      toast.success('Moved to trash', {
+        action: { label: 'Undo', onClick: () => void restorePage(pageId) },
+      });
     }
   };
 
   const handleToggleFavorite = async (page: Page, e?: React.MouseEvent) => {
     e?.stopPropagation();
-    const { error } = await updatePage(page.id, { is_favorite: !page.is_favorite });
-    if (error) {
-      toast.error('Failed to update page');
-    }
+    await updatePage(page.id, { is_favorite: !page.is_favorite });
   };
 
   const handleSignOut = async () => {
@@ -128,8 +220,9 @@ export function Sidebar({ selectedPageId, onSelectPage }: SidebarProps) {
     toast.success('Signed out');
   };
 
-  const renderPageItem = (page: Page, depth: number = 0) => {
-    const children = getChildPages(page.id);
+  const renderPageItem = (page: Page, depth: number = 0, nested: boolean = true) => {
+    const children = nested ? sortPages(getChildPages(page.id).filter(isInTree)) : [];
+    const status = getStatusOption(page.status);
     const hasChildren = children.length > 0;
     const isExpanded = expandedIds.has(page.id);
     const isSelected = selectedPageId === page.id;
@@ -142,7 +235,7 @@ export function Sidebar({ selectedPageId, onSelectPage }: SidebarProps) {
             isSelected && 'active'
           )}
           style={{ paddingLeft: `${8 + depth * 16}px` }}
-          onClick={() => onSelectPage(page.id)}
+          onClick={() => openPage(page.id)}
         >
           {/* Expand/Collapse toggle */}
           <button
@@ -180,6 +273,10 @@ export function Sidebar({ selectedPageId, onSelectPage }: SidebarProps) {
               <span className="w-1.5 h-1.5 rounded-full bg-muted-foreground/50 shrink-0" />
             )}
             <span className="truncate text-sm">{page.title || 'Untitled'}</span>
+            <span
+              title={status.label}
+              className={cn('w-1.5 h-1.5 rounded-full shrink-0 ml-auto opacity-70', STATUS_DOT_CLASSES[status.color])}
+            />
           </div>
 
           {/* Hover actions */}
@@ -220,11 +317,11 @@ export function Sidebar({ selectedPageId, onSelectPage }: SidebarProps) {
                 </DropdownMenuItem>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem
-                  onClick={(e) => handleDeletePage(page.id)}
+                  onClick={(e) => handleTrashPage(page.id)}
                   className="text-destructive focus:text-destructive"
                 >
                   <Trash2 className="w-4 h-4 mr-2" />
-                  Delete
+                  Move to trash
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
@@ -275,11 +372,15 @@ export function Sidebar({ selectedPageId, onSelectPage }: SidebarProps) {
 
       {/* Search & Actions */}
       <div className="px-3 pb-2 space-y-1">
-        <button className="sidebar-item w-full">
+        <button className="sidebar-item w-full" onClick={onOpenSearch}>
           <Search className="w-4 h-4" />
           <span className="flex-1 text-left">Search</span>
           <span className="kbd-badge">⌘K</span>
         </button>
+        <button className={cn('sidebar-item w-full', isGraphOpen && 'active')} onClick={() => navigate(graphPath())}>
+          <Network className="w-4 h-4" />
+          <span>Graph View</span>
+        </button>
         <button className="sidebar-item w-full" onClick={handleCreatePage}>
           <PlusCircle className="w-4 h-4" />
           <span>New Note</span>
@@ -298,7 +399,7 @@ export function Sidebar({ selectedPageId, onSelectPage }: SidebarProps) {
               {favoritePages.map((page) => (
                 <li key={page.id}>
                   <button
-                    onClick={() => onSelectPage(page.id)}
+                    onClick={() => openPage(page.id)}
                     className={cn(
                       'sidebar-item w-full',
                       selectedPageId === page.id && 'active'
@@ -319,35 +420,147 @@ export function Sidebar({ selectedPageId, onSelectPage }: SidebarProps) {
 
         {/* All Pages (Tree View) */}
         <div className="mb-6">
-          <h3 className="px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider mb-1">
-            Pages
-          </h3>
+          <div className="flex items-center justify-between px-2 mb-1">
+            <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              Pages
+            </h3>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  className={cn(
+                    'p-0.5 rounded hover:bg-sidebar-border transition-colors',
+                    isFiltered || isSorted ? 'text-accent' : 'text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  <ListFilter className="w-3.5 h-3.5" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-48">
+                <DropdownMenuLabel className="text-xs text-muted-foreground">Filter by status</DropdownMenuLabel>
+                {STATUS_OPTIONS.map((option) => (
+                  <DropdownMenuCheckboxItem
+                    key={option.value}
+                    checked={statusFilter.includes(option.value)}
+                    onCheckedChange={() => toggleStatusFilter(option.value)}
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    <span className={cn('w-1.5 h-1.5 rounded-full mr-2', STATUS_DOT_CLASSES[option.color])} />
+                    {option.label}
+                  </DropdownMenuCheckboxItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger disabled={properties.length === 0}>
+                    <SlidersHorizontal className="w-4 h-4 mr-2" />
+                    Property
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent className="w-52">
+                    <DropdownMenuRadioGroup
+                      value={activePropertyFilter ? encodePropertyFilter(activePropertyFilter) : NO_PROPERTY_FILTER}
+                      onValueChange={(value) =>
+                        setPropertyFilter(value === NO_PROPERTY_FILTER ? null : decodePropertyFilter(value))
+                      }
+                    >
+                      <DropdownMenuRadioItem value={NO_PROPERTY_FILTER}>Any</DropdownMenuRadioItem>
+                      {propertyFilterChoices(properties).map(({ label, filter }) => (
+                        <DropdownMenuRadioItem key={encodePropertyFilter(filter)} value={encodePropertyFilter(filter)}>
+                          <span className="truncate">{label}</span>
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <ArrowUpDown className="w-4 h-4 mr-2" />
+                    Sort by
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent className="w-48">
+                    <DropdownMenuRadioGroup value={isSorted ? sortBy : SORT_MANUAL} onValueChange={setSortBy}>
+                      <DropdownMenuRadioItem value={SORT_MANUAL}>Manual</DropdownMenuRadioItem>
+                      <DropdownMenuRadioItem value={SORT_TITLE}>Title</DropdownMenuRadioItem>
+                      {properties.map((property) => (
+                        <DropdownMenuRadioItem key={property.id} value={property.id}>
+                          <span className="truncate">{property.name}</span>
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuCheckboxItem
+                      checked={sortDescending}
+                      disabled={!isSorted}
+                      onCheckedChange={(checked) => setSortDescending(checked === true)}
+                      onSelect={(e) => e.preventDefault()}
+                    >
+                      Descending
+                    </DropdownMenuCheckboxItem>
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+                {isFiltered && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={clearFilters}>Clear filters</DropdownMenuItem>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
 
           {loading ? (
             <div className="px-2 py-4 text-sm text-muted-foreground text-center">
               Loading...
             </div>
-          ) : rootPages.length === 0 ? (
+          ) : isFiltered ? (
+            filteredPages.length === 0 ? (
+              <div className="px-2 py-4 text-sm text-muted-foreground text-center">
+                No matching pages
+              </div>
+            ) : (
+              <div className="space-y-0.5">
+                {filteredPages.map((page) => renderPageItem(page, 0, false))}
+              </div>
+            )
+          ) : treeRootPages.length === 0 ? (
             <div className="px-2 py-4 text-sm text-muted-foreground text-center">
               No pages yet
             </div>
           ) : (
             <div className="space-y-0.5">
-              {rootPages.map((page) => renderPageItem(page))}
+              {treeRootPages.map((page) => renderPageItem(page))}
             </div>
           )}
         </div>
 
+        {/* Archive */}
+        <ArchiveSection selectedPageId={selectedPageId} onOpenPage={openPage} />
+
+        {/* Trash */}
+        <TrashSection />
+
         {/* Tags */}
         <div>
           <h3 className="px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider mb-1">
             Tags
           </h3>
-          <div className="px-2 flex flex-wrap gap-2">
-            <span className="text-xs text-muted-foreground hover:text-secondary-foreground cursor-pointer">#bug-fix</span>
-            <span className="text-xs text-muted-foreground hover:text-secondary-foreground cursor-pointer">#rfc</span>
-            <span className="text-xs text-muted-foreground hover:text-secondary-foreground cursor-pointer">#idea</span>
-          </div>
+          {tags.length === 0 ? (
+            <p className="px-2 text-xs text-muted-foreground">Write #tag in a page or add one under its title</p>
+          ) : (
+            <div className="px-2 flex flex-wrap gap-2">
+              {tags.map(({ tag, count }) => (
+                <button
+                  key={tag}
+                  onClick={() => navigate(tagPath(tag))}
+                  className={cn(
+                    'text-xs hover:text-secondary-foreground transition-colors',
+                    selectedTag === tag ? 'text-accent' : 'text-muted-foreground'
+                  )}
+                >
+                  #{tag}
+                  <span className="ml-1 text-muted-foreground/60">{count}</span>
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       </ScrollArea>
 
@@ -0,0 +1,87 @@
+import { useNavigate } from 'react-router-dom';
+import { usePages } from '@/hooks/usePages';
+import { usePageTags } from '@/hooks/usePageTags';
+import { STATUS_DOT_CLASSES, getStatusOption } from '@/components/editor/pageStatus';
+import { pagePath, tagPath } from '@/lib/routes';
+import { cn } from '@/lib/utils';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { FileCode, Hash } from 'lucide-react';
+
+interface TagViewProps {
+  tag: string;
+}
+
+// The pages tagged with one tag, opened from the sidebar's Tags section
+export function TagView({ tag }: TagViewProps) {
+  const navigate = useNavigate();
+  const { pages, getAncestors } = usePages();
+  const { getPageTags, getTaggedPageIds } = usePageTags();
+
+  const taggedIds = new Set(getTaggedPageIds(tag));
+  const tagged = pages
+    .filter((p) => taggedIds.has(p.id))
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+
+  return (
+    <main className="flex-1 flex flex-col h-full bg-background relative">
+      <header className="border-b border-border/40 px-6 py-3 bg-background/80 backdrop-blur-sm sticky top-0 z-10">
+        <h1 className="flex items-center gap-2 text-sm font-medium text-secondary-foreground">
+          <Hash className="w-4 h-4 text-muted-foreground" />
+          {tag}
+          <span className="text-xs font-normal text-muted-foreground">
+            {tagged.length} page{tagged.length === 1 ? '' : 's'}
+          </span>
+        </h1>
+      </header>
+
+      <ScrollArea className="flex-1">
+        <div className="max-w-3xl mx-auto px-8 py-8 space-y-1">
+          {tagged.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">No pages are tagged #{tag}.</p>
+          ) : (
+            tagged.map((page) => {
+              const path = getAncestors(page.id).map((a) => a.title || 'Untitled');
+              const status = getStatusOption(page.status);
+              return (
+                <div key={page.id} className="rounded-md px-3 py-2 hover:bg-secondary transition-colors animate-fade-in">
+                  <button
+                    onClick={() => navigate(pagePath(page.id))}
+                    className="w-full flex items-center gap-2 text-left"
+                  >
+                    {page.icon ? (
+                      <span className="text-sm">{page.icon}</span>
+                    ) : (
+                      <FileCode className="w-4 h-4 text-accent" />
+                    )}
+                    <span className="font-medium text-secondary-foreground truncate">{page.title || 'Untitled'}</span>
+                    <span
+                      title={status.label}
+                      className={cn('w-1.5 h-1.5 rounded-full shrink-0', STATUS_DOT_CLASSES[status.color])}
+                    />
+                  </button>
+                  {path.length > 0 && (
+                    <p className="mt-0.5 text-xs text-muted-foreground truncate">{path.join(' / ')}</p>
+                  )}
+                  <div className="mt-1 flex flex-wrap gap-2">
+                    {getPageTags(page.id).map(({ tag: pageTag }) => (
+                      <button
+                        key={pageTag}
+                        onClick={() => navigate(tagPath(pageTag))}
+                        className={cn(
+                          'text-xs hover:text-secondary-foreground transition-colors',
+                          pageTag === tag ? 'text-accent' : 'text-muted-foreground'
+                        )}
+                      >
+                        #{pageTag}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </ScrollArea>
+    </main>
+  );
+}
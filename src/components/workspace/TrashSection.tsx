@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { usePages, useTrashRetentionDays, Page } from '@/hooks/usePages';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { ChevronDown, ChevronRight, RotateCcw, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+// Sidebar list of trashed pages, each with the subtree trashed along with it
+export function TrashSection() {
+  const { trash, getTrashedChildren, restorePage, deletePagePermanently } = usePages();
+  const retentionDays = useTrashRetentionDays();
+  const [isOpen, setIsOpen] = useState(false);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [pendingDelete, setPendingDelete] = useState<Page | null>(null);
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleRestore = async (page: Page) => {
+    const { error } = await restorePage(page.id);
+    if (error) {
+      toast.error('Failed to restore page');
+    } else {
+      toast.success('Page restored');
+    }
+  };
+
+  const handleDeletePermanently = async (page: Page) => {
+    setPendingDelete(null);
+    const { error } = await deletePagePermanently(page.id);
+    if (error) {
+      toast.error('Failed to delete page');
+    } else {
+      toast.success('Page deleted permanently');
+    }
+  };
+
+  const renderTrashItem = (page: Page, depth: number = 0) => {
+    const children = getTrashedChildren(page.id);
+    const hasChildren = children.length > 0;
+    const isExpanded = expandedIds.has(page.id);
+
+    return (
+      <div key={page.id}>
+        <div
+          className="sidebar-item group cursor-default"
+          style={{ paddingLeft: `${8 + depth * 16}px` }}
+          title={page.deleted_at ? `Deleted ${formatDistanceToNow(new Date(page.deleted_at), { addSuffix: true })}` : undefined}
+        >
+          <button
+            onClick={() => hasChildren && toggleExpanded(page.id)}
+            className={cn(
+              'p-0.5 hover:bg-sidebar-border rounded text-muted-foreground hover:text-foreground transition-colors',
+              !hasChildren && 'opacity-0'
+            )}
+          >
+            {isExpanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+          </button>
+
+          <div className="flex-1 flex items-center gap-2 min-w-0">
+            {page.icon && <span className="text-sm shrink-0">{page.icon}</span>}
+            <span className="truncate text-sm line-through decoration-muted-foreground/50">
+              {page.title || 'Untitled'}
+            </span>
+          </div>
+
+          <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  onClick={() => handleRestore(page)}
+                  className="p-1 hover:bg-sidebar-border rounded text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent side="top" className="text-xs">
+                Restore
+              </TooltipContent>
+            </Tooltip>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  onClick={() => setPendingDelete(page)}
+                  className="p-1 hover:bg-sidebar-border rounded text-muted-foreground hover:text-destructive transition-colors"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent side="top" className="text-xs">
+                Delete permanently
+              </TooltipContent>
+            </Tooltip>
+          </div>
+        </div>
+
+        {hasChildren && isExpanded && children.map((child) => renderTrashItem(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mb-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-1 px-2 mb-1 text-xs font-medium text-muted-foreground uppercase tracking-wider hover:text-secondary-foreground transition-colors"
+      >
+        <Trash2 className="w-3.5 h-3.5" />
+        <span className="flex-1 text-left">Trash</span>
+        {trash.length > 0 && <span className="normal-case tracking-normal">{trash.length}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="space-y-0.5 animate-fade-in">
+          {trash.length === 0 ? (
+            <div className="px-2 py-2 text-sm text-muted-foreground text-center">Trash is empty</div>
+          ) : (
+            trash.map((page) => renderTrashItem(page))
+          )}
+          {retentionDays !== null && (
+            <p className="px-2 pt-1 text-[10px] text-muted-foreground">
+              Pages in the trash are deleted after {retentionDays} days.
+            </p>
+          )}
+        </div>
+      )}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{pendingDelete?.title || 'Untitled'}" permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The page, its subpages and all of their blocks will be deleted. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDelete && handleDeletePermanently(pendingDelete)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
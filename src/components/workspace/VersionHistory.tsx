@@ -0,0 +1,177 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Page } from '@/hooks/usePages';
+import { PageVersion, VersionReason, usePageVersions } from '@/hooks/usePageVersions';
+import { diffBlocks } from '@/lib/blockDiff';
+import { BlockDiffView } from './BlockDiffView';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { History, RotateCcw, Save } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface VersionHistoryProps {
+  page: Page;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const REASON_LABELS: Record<VersionReason, string> = {
+  auto: 'Autosave',
+  manual: 'Saved',
+  restore: 'Restored',
+  merge: 'Merged branch',
+};
+
+// Compare against an empty page when there is no older version
+const NOTHING = 'nothing';
+
+const formatTime = (version: PageVersion) => format(new Date(version.created_at), 'MMM d, HH:mm');
+
+export function VersionHistory({ page, open, onOpenChange }: VersionHistoryProps) {
+  const { versions, loading, saveVersion, restoreVersion } = usePageVersions(open ? page.id : null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const selectedIndex = Math.max(0, versions.findIndex((v) => v.id === selectedId));
+  const selected = versions[selectedIndex];
+  // Defaults to the version just before the selected one
+  const base =
+    compareId === NOTHING ? undefined : versions.find((v) => v.id === compareId) ?? versions[selectedIndex + 1];
+
+  const changes = useMemo(() => (selected ? diffBlocks(base?.blocks ?? [], selected.blocks) : []), [base, selected]);
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    setCompareId(null);
+  };
+
+  const handleSave = async () => {
+    const { data, error } = await saveVersion();
+    if (error) {
+      toast.error('Failed to save version');
+    } else if (data) {
+      handleSelect(data.id);
+      toast.success('Version saved');
+    }
+  };
+
+  const handleRestore = async (version: PageVersion) => {
+    setRestoring(true);
+    const { data, error } = await restoreVersion(version.id);
+    setRestoring(false);
+    if (error) {
+      toast.error('Failed to restore version');
+    } else {
+      setSelectedId(data?.id ?? null);
+      setCompareId(null);
+      toast.success(`Restored version from ${formatTime(version)}`);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-3xl flex flex-col gap-4">
+        <SheetHeader className="flex-row items-center justify-between space-y-0 pr-8">
+          <div>
+            <SheetTitle className="flex items-center gap-2">
+              <History className="w-4 h-4" />
+              Version history
+            </SheetTitle>
+            <SheetDescription>{page.title || 'Untitled'}</SheetDescription>
+          </div>
+          <Button variant="secondary" size="sm" onClick={handleSave}>
+            <Save className="w-4 h-4 mr-2" />
+            Save version
+          </Button>
+        </SheetHeader>
+
+        {loading ? (
+          <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">Loading...</div>
+        ) : versions.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">
+            No versions yet. Versions are saved automatically while you edit.
+          </div>
+        ) : (
+          <div className="flex-1 flex gap-4 min-h-0">
+            {/* Version list */}
+            <ScrollArea className="w-56 shrink-0 border-r border-border pr-2">
+              <ul className="space-y-0.5">
+                {versions.map((version) => (
+                  <li key={version.id}>
+                    <button
+                      onClick={() => handleSelect(version.id)}
+                      className={cn(
+                        'w-full rounded-md px-2 py-1.5 text-left transition-colors hover:bg-secondary',
+                        version.id === selected?.id && 'bg-secondary'
+                      )}
+                    >
+                      <div className="text-sm text-secondary-foreground">{formatTime(version)}</div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {REASON_LABELS[version.reason]} · {version.author_name || 'Unknown'}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+
+            {/* Diff against another version */}
+            {selected && (
+              <div className="flex-1 flex flex-col min-w-0 gap-3">
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span>Compared with</span>
+                  <Select value={base?.id ?? NOTHING} onValueChange={setCompareId}>
+                    <SelectTrigger className="h-8 w-48 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions
+                        .filter((v) => v.id !== selected.id)
+                        .map((v) => (
+                          <SelectItem key={v.id} value={v.id}>
+                            {formatTime(v)} · {REASON_LABELS[v.reason]}
+                          </SelectItem>
+                        ))}
+                      <SelectItem value={NOTHING}>Empty page</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    className="ml-auto"
+                    disabled={restoring}
+                    onClick={() => handleRestore(selected)}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Restore this version
+                  </Button>
+                </div>
+
+                {base && base.title !== selected.title && (
+                  <p className="text-sm">
+                    <span className="text-muted-foreground line-through">{base.title || 'Untitled'}</span>
+                    {' → '}
+                    <span className="text-secondary-foreground">{selected.title || 'Untitled'}</span>
+                  </p>
+                )}
+
+                <ScrollArea className="flex-1">
+                  <BlockDiffView changes={changes} />
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
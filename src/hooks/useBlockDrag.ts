@@ -0,0 +1,93 @@
+import { useState, useCallback, RefObject, PointerEvent } from 'react';
+
+// Pointer distance before a press on the grip counts as a drag
+const DRAG_THRESHOLD = 4;
+
+export interface BlockDragState {
+  ids: string[];
+  // Index of the block the dragged blocks will be inserted before
+  dropIndex: number;
+  // Offset of the drop indicator from the top of the container
+  indicatorTop: number;
+}
+
+interface UseBlockDragOptions {
+  containerRef: RefObject<HTMLElement>;
+  onDrop: (ids: string[], dropIndex: number) => void;
+}
+
+export function useBlockDrag({ containerRef, onDrop }: UseBlockDragOptions) {
+  const [dragState, setDragState] = useState<BlockDragState | null>(null);
+
+  const getDropTarget = useCallback(
+    (clientY: number) => {
+      const container = containerRef.current;
+      if (!container) return null;
+
+      const containerTop = container.getBoundingClientRect().top;
+      const items = Array.from(container.querySelectorAll<HTMLElement>(':scope > [data-block-id]'));
+      if (items.length === 0) return null;
+
+      for (let i = 0; i < items.length; i++) {
+        const rect = items[i].getBoundingClientRect();
+        if (clientY < rect.top + rect.height / 2) {
+          return { dropIndex: i, indicatorTop: rect.top - containerTop - 8 };
+        }
+      }
+
+      const last = items[items.length - 1].getBoundingClientRect();
+      return { dropIndex: items.length, indicatorTop: last.bottom - containerTop + 8 };
+    },
+    [containerRef]
+  );
+
+  // Begin tracking a press on a grip handle. If the pointer is released
+  // before moving past the threshold, onClick runs instead of a drop.
+  const startDrag = useCallback(
+    (e: PointerEvent, ids: string[], onClick: () => void) => {
+      if (e.button !== 0) return;
+      const startY = e.clientY;
+      const startX = e.clientX;
+      let dragging = false;
+      let latest: { dropIndex: number; indicatorTop: number } | null = null;
+
+      const handleMove = (event: globalThis.PointerEvent) => {
+        if (!dragging && Math.hypot(event.clientX - startX, event.clientY - startY) < DRAG_THRESHOLD) {
+          return;
+        }
+        dragging = true;
+        latest = getDropTarget(event.clientY);
+        if (latest) {
+          setDragState({ ids, ...latest });
+        }
+      };
+
+      const handleUp = () => {
+        window.removeEventListener('pointermove', handleMove);
+        window.removeEventListener('pointerup', handleUp);
+        window.removeEventListener('pointercancel', handleCancel);
+        setDragState(null);
+
+        if (!dragging) {
+          onClick();
+        } else if (latest) {
+          onDrop(ids, latest.dropIndex);
+        }
+      };
+
+      const handleCancel = () => {
+        window.removeEventListener('pointermove', handleMove);
+        window.removeEventListener('pointerup', handleUp);
+        window.removeEventListener('pointercancel', handleCancel);
+        setDragState(null);
+      };
+
+      window.addEventListener('pointermove', handleMove);
+      window.addEventListener('pointerup', handleUp);
+      window.addEventListener('pointercancel', handleCancel);
+    },
+    [getDropTarget, onDrop]
+  );
+
+  return { dragState, startDrag };
+}
@@ -0,0 +1,228 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Block, BlockPosition, BlockType, useBlocks } from '@/hooks/useBlocks';
+import { BlockParentChange, getBlockNesting, withDescendants } from '@/lib/blockTree';
+
+type BlockUpdates = Partial<Pick<Block, 'type' | 'content' | 'checked'>>;
+
+type HistoryOp =
+  | { kind: 'create'; block: Block }
+  | { kind: 'delete'; block: Block }
+  | { kind: 'update'; id: string; before: BlockUpdates; after: BlockUpdates }
+  | { kind: 'move'; before: BlockPosition[]; after: BlockPosition[] };
+
+// One undo step; several ops when a single action touched several blocks
+type HistoryEntry = HistoryOp[];
+
+const MAX_HISTORY = 100;
+
+// Page-scoped undo/redo on top of useBlocks. Every mutation made through the
+// returned functions is recorded, and undo/redo replay the inverse operations.
+// Mutations run one at a time, so an undo always sees the edits issued before it.
+export function useBlockHistory(pageId: string, api: ReturnType<typeof useBlocks>) {
+  const undoStack = useRef<HistoryEntry[]>([]);
+  const redoStack = useRef<HistoryEntry[]>([]);
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const [, setVersion] = useState(0);
+
+  useEffect(() => {
+    undoStack.current = [];
+    redoStack.current = [];
+    setVersion((v) => v + 1);
+  }, [pageId]);
+
+  const enqueue = useCallback(<T>(task: () => Promise<T>): Promise<T> => {
+    const result = queueRef.current.then(task);
+    queueRef.current = result.catch(() => undefined);
+    return result;
+  }, []);
+
+  const record = (entry: HistoryEntry) => {
+    if (entry.length === 0) return;
+    undoStack.current = [...undoStack.current, entry].slice(-MAX_HISTORY);
+    redoStack.current = [];
+    setVersion((v) => v + 1);
+  };
+
+  // Tasks run after the ones queued before them, so they read the current
+  // api and blocks when they start rather than what the queuing render saw
+  const apiRef = useRef(api);
+  apiRef.current = api;
+  const current = () => apiRef.current;
+
+  const createBlock = (type: BlockType = 'paragraph', content: string = '') =>
+    enqueue(async () => {
+      const result = await current().createBlock(type, content);
+      if (result.data) record([{ kind: 'create', block: result.data }]);
+      return result;
+    });
+
+  const insertBlockAfter = (afterId: string, type: BlockType = 'paragraph', content: string = '') =>
+    enqueue(async () => {
+      const result = await current().insertBlockAfter(afterId, type, content);
+      if (result.data) record([{ kind: 'create', block: result.data }]);
+      return result;
+    });
+
+  // Several updates recorded as one undo step (e.g. replace all)
+  const updateBlocks = (changes: { id: string; updates: BlockUpdates }[]) =>
+    enqueue(async () => {
+      const blocks = current().getBlocks();
+      const snapshots = changes.map(({ id }) => blocks.find((b) => b.id === id));
+      const results = await Promise.all(changes.map(({ id, updates }) => current().updateBlock(id, updates)));
+      record(
+        changes.flatMap(({ id, updates }, index) => {
+          const snapshot = snapshots[index];
+          if (results[index].error || !snapshot) return [];
+          const before: BlockUpdates = {};
+          (Object.keys(updates) as (keyof BlockUpdates)[]).forEach((key) => {
+            (before as Record<string, unknown>)[key] = snapshot[key];
+          });
+          return [{ kind: 'update' as const, id, before, after: updates }];
+        })
+      );
+      return results;
+    });
+
+  const updateBlock = async (id: string, updates: BlockUpdates) => {
+    const [result] = await updateBlocks([{ id, updates }]);
+    return result;
+  };
+
+  // Where blocks were before a move, for the ones the move touched
+  const positionsBefore = (snapshot: Block[], moved: BlockPosition[]) =>
+    moved.flatMap(({ id }) => {
+      const block = snapshot.find((b) => b.id === id);
+      return block ? [{ id, position: block.position, parent_block_id: block.parent_block_id }] : [];
+    });
+
+  // Blocks nested under a deleted block go with it
+  const deleteBlocks = (ids: string[]) =>
+    enqueue(async () => {
+      const blocks = current().getBlocks();
+      const withChildren = withDescendants(blocks, getBlockNesting(blocks), ids);
+      const deleting = blocks.filter((b) => withChildren.includes(b.id));
+      const results = await Promise.all(deleting.map((b) => current().deleteBlock(b.id)));
+      record(deleting.filter((_, index) => !results[index].error).map((block) => ({ kind: 'delete', block })));
+      return { error: results.find((r) => r.error)?.error ?? null };
+    });
+
+  const deleteBlock = (id: string) => deleteBlocks([id]);
+
+  // Delete a single block and lift its children to its own level, as one
+  // undo step (Backspace in an empty block shouldn't take its children along)
+  const deleteBlockKeepingChildren = (id: string) =>
+    enqueue(async () => {
+      const snapshot = current().getBlocks();
+      const nesting = getBlockNesting(snapshot);
+      const block = snapshot.find((b) => b.id === id);
+      const lifted = snapshot
+        .filter((b) => nesting.get(b.id)?.parentId === id)
+        .map((b) => ({ id: b.id, parent_block_id: nesting.get(id)?.parentId ?? null }));
+
+      const entry: HistoryEntry = [];
+      if (lifted.length > 0) {
+        const moved = await current().setBlockParents(lifted);
+        if (!moved.data) return { error: moved.error };
+        entry.push({ kind: 'move', before: positionsBefore(snapshot, moved.data), after: moved.data });
+      }
+      const { error } = await current().deleteBlock(id);
+      if (!error && block) entry.push({ kind: 'delete', block });
+      record(entry);
+      return { error };
+    });
+
+  // The target may be given as a function of the blocks at the time the move
+  // runs (e.g. "one sibling down"), so queued moves each start where the last
+  // one left off. Null means there is nowhere to move to.
+  const moveBlocks = (ids: string[], target: number | ((blocks: Block[]) => number | null)) =>
+    enqueue(async () => {
+      const snapshot = current().getBlocks();
+      const targetIndex = typeof target === 'function' ? target(snapshot) : target;
+      if (targetIndex === null) return { data: null, error: null };
+
+      const result = await current().moveBlocks(ids, targetIndex);
+      if (result.data) {
+        const after = result.data.map(({ id, position, parent_block_id }) => ({ id, position, parent_block_id }));
+        record([{ kind: 'move', before: positionsBefore(snapshot, after), after }]);
+      }
+      return result;
+    });
+
+  // Indent and outdent, undone like a move. Changes may be computed from the
+  // blocks when the task runs; null means there is nothing to change.
+  const setBlockParents = (
+    changes: BlockParentChange[] | ((blocks: Block[]) => BlockParentChange[] | null)
+  ) =>
+    enqueue(async () => {
+      const snapshot = current().getBlocks();
+      const resolved = typeof changes === 'function' ? changes(snapshot) : changes;
+      if (!resolved) return { data: null, error: null };
+
+      const result = await current().setBlockParents(resolved);
+      if (result.data) {
+        record([{ kind: 'move', before: positionsBefore(snapshot, result.data), after: result.data }]);
+      }
+      return result;
+    });
+
+  // Apply one op forwards (redo) or backwards (undo), returning the block to focus
+  const applyOp = async (op: HistoryOp, direction: 'undo' | 'redo') => {
+    const undoing = direction === 'undo';
+    const blocksApi = current();
+
+    switch (op.kind) {
+      case 'create':
+      case 'delete': {
+        const restoring = (op.kind === 'delete') === undoing;
+        const { error } = restoring ? await blocksApi.restoreBlock(op.block) : await blocksApi.deleteBlock(op.block.id);
+        return { error, focusId: restoring ? op.block.id : null };
+      }
+      case 'update': {
+        const { error } = await blocksApi.updateBlock(op.id, undoing ? op.before : op.after);
+        return { error, focusId: op.id };
+      }
+      case 'move': {
+        const { error } = await blocksApi.setBlockPositions(undoing ? op.before : op.after);
+        return { error, focusId: null };
+      }
+    }
+  };
+
+  const replay = (direction: 'undo' | 'redo') =>
+    enqueue(async () => {
+      const from = direction === 'undo' ? undoStack : redoStack;
+      const to = direction === 'undo' ? redoStack : undoStack;
+      const entry = from.current[from.current.length - 1];
+      if (!entry) return null;
+
+      from.current = from.current.slice(0, -1);
+      const ops = direction === 'undo' ? [...entry].reverse() : entry;
+      let focusId: string | null = null;
+      for (const op of ops) {
+        const result = await applyOp(op, direction);
+        if (result.error) {
+          console.error(`Error during ${direction}:`, result.error);
+        }
+        focusId = result.focusId ?? focusId;
+      }
+      to.current = [...to.current, entry];
+      setVersion((v) => v + 1);
+      return focusId;
+    });
+
+  return {
+    createBlock,
+    insertBlockAfter,
+    updateBlock,
+    updateBlocks,
+    deleteBlock,
+    deleteBlocks,
+    deleteBlockKeepingChildren,
+    moveBlocks,
+    setBlockParents,
+    undo: () => replay('undo'),
+    redo: () => replay('redo'),
+    canUndo: undoStack.current.length > 0,
+    canRedo: redoStack.current.length > 0,
+  };
+}
@@ -1,5 +1,15 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { extractTags } from '@/lib/tags';
+import { getBlockNesting, parentAtInsertion, withDescendants } from '@/lib/blockTree';
+import {
+  comparePositions,
+  generateKeyBetween,
+  generateNKeysBetween,
+  needsRebalance,
+} from '@/lib/fractionalIndex';
 
 export type BlockType =
   | 'paragraph'
@@ -19,124 +29,408 @@ export interface Block {
   type: BlockType;
   content: string;
   checked: boolean;
-  position: number;
+  position: string;
+  // The block this one is nested under; see src/lib/blockTree.ts
+  parent_block_id: string | null;
+  // On a branch page, the main page block this one was copied from
+  source_block_id: string | null;
+  deleted_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface BlockPosition {
+  id: string;
+  position: string;
+  parent_block_id: string | null;
+}
+
+const EMPTY_BLOCKS: Block[] = [];
+
+function isPositionConflict(error: { message: string } | null) {
+  return !!error?.message.includes('position_conflict');
+}
+
+type BlockUpdates = Partial<Pick<Block, 'type' | 'content' | 'checked' | 'position'>>;
+
+async function fetchBlocks(pageId: string) {
+  const { data, error } = await supabase
+    .from('blocks')
+    .select('*')
+    .eq('page_id', pageId)
+    .is('deleted_at', null)
+    .order('position', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching blocks:', error);
+    throw error;
+  }
+  return (data as Block[]) || [];
+}
+
 export function useBlocks(pageId: string | null) {
-  const [blocks, setBlocks] = useState<Block[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  const fetchBlocks = useCallback(async () => {
-    if (!pageId) {
-      setBlocks([]);
-      setLoading(false);
-      return;
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.blocks(pageId);
+
+  const { data: blocks = EMPTY_BLOCKS, isLoading: loading, refetch } = useQuery({
+    queryKey,
+    queryFn: () => fetchBlocks(pageId!),
+    enabled: !!pageId,
+  });
+
+  // The blocks as they are now, including optimistic writes not rendered yet.
+  // Mutations read these rather than `blocks`, which may be a render behind
+  // when several are queued back to back.
+  const getBlocks = () => queryClient.getQueryData<Block[]>(queryKey) ?? EMPTY_BLOCKS;
+
+  // Local writes go straight to the query cache
+  const setBlocks = (next: Block[] | ((prev: Block[]) => Block[])) => {
+    queryClient.setQueryData<Block[]>(queryKey, (prev = []) =>
+      typeof next === 'function' ? next(prev) : next
+    );
+  };
+
+  // The server keeps inline #tags in sync with block content; refetch them
+  // when a write added or removed one. A missing side is a created or removed
+  // block.
+  const refreshTags = (before?: Pick<Block, 'type' | 'content'>, after?: Pick<Block, 'type' | 'content'>) => {
+    const tagsOf = (block?: Pick<Block, 'type' | 'content'>) => (block ? extractTags(block.content, block.type) : []);
+    if (tagsOf(before).join() !== tagsOf(after).join()) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.allPageTags });
     }
+  };
 
-    setLoading(true);
-    const { data, error } = await supabase
-      .from('blocks')
-      .select('*')
-      .eq('page_id', pageId)
-      .order('position', { ascending: true });
+  // Put a single block back the way it was before a failed optimistic write
+  const rollbackBlock = (id: string, previous: Block | undefined) => {
+    setBlocks((prev) => {
+      const rest = prev.filter((b) => b.id !== id);
+      return (previous ? [...rest, previous] : rest).sort(comparePositions);
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: BlockUpdates }) => {
+      const { data, error } = await supabase
+        .from('blocks')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Block;
+    },
+    onMutate: async ({ id, updates }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<Block[]>(queryKey)?.find((b) => b.id === id);
+      setBlocks((prev) =>
+        prev.map((b) => (b.id === id ? { ...b, ...updates } : b)).sort(comparePositions)
+      );
+      return { previous };
+    },
+    onError: (error, { id }, context) => {
+      console.error('Error updating block:', error);
+      rollbackBlock(id, context?.previous);
+      toast.error('Failed to save block');
+    },
+    onSuccess: (data, _variables, context) => {
+      setBlocks((prev) => prev.map((b) => (b.id === data.id ? data : b)).sort(comparePositions));
+      refreshTags(context?.previous, data);
+    },
+  });
+
+  // Deleted blocks go to the trash and are purged with it
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('blocks')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<Block[]>(queryKey)?.find((b) => b.id === id);
+      setBlocks((prev) => prev.filter((b) => b.id !== id));
+      return { previous };
+    },
+    onError: (error, id, context) => {
+      console.error('Error deleting block:', error);
+      rollbackBlock(id, context?.previous);
+      toast.error('Failed to delete block');
+    },
+    onSuccess: (_data, _id, context) => {
+      refreshTags(context?.previous);
+    },
+  });
+
+  // Rewrite every position on the page with short, evenly spaced keys
+  const rebalanceBlocks = async (ordered: Block[]) => {
+    if (!pageId) return ordered;
+
+    const { data, error } = await supabase.rpc('reorder_blocks', {
+      p_page_id: pageId,
+      p_block_ids: ordered.map((b) => b.id),
+    });
 
     if (error) {
-      console.error('Error fetching blocks:', error);
-    } else {
-      setBlocks((data as Block[]) || []);
+      console.error('Error rebalancing blocks:', error);
+      return ordered;
     }
-    setLoading(false);
-  }, [pageId]);
-
-  useEffect(() => {
-    fetchBlocks();
-  }, [fetchBlocks]);
-
-  const createBlock = async (
-    type: BlockType = 'paragraph',
-    content: string = '',
-    position?: number
-  ) => {
+
+    const rebalanced = (data as Block[]) || [];
+    setBlocks(rebalanced);
+    return rebalanced;
+  };
+
+  // Insert a block right after afterId (at the start when null, at the end
+  // when it's gone), keyed between its current neighbours. A conflicting key
+  // (duplicates, or another client inserting at the same spot) triggers one
+  // rebalance and retry.
+  const insertAt = async (
+    afterId: string | null,
+    type: BlockType,
+    content: string,
+    parentId: string | null = null,
+    retry: boolean = true
+  ): Promise<{ data: Block | null; error: Error | null }> => {
     if (!pageId) return { data: null, error: new Error('No page selected') };
 
-    const newPosition = position ?? blocks.length;
+    const list = getBlocks();
+    const afterIndex = afterId ? list.findIndex((b) => b.id === afterId) : -1;
+    const index = afterId && afterIndex === -1 ? list.length : afterIndex + 1;
+    const before = list[index - 1];
+    const after = list[index];
+    let position: string;
+    try {
+      position = generateKeyBetween(before?.position ?? null, after?.position ?? null);
+    } catch (err) {
+      if (!retry) return { data: null, error: err as Error };
+      await rebalanceBlocks(list);
+      return insertAt(afterId, type, content, parentId, false);
+    }
 
-    const { data, error } = await supabase
-      .from('blocks')
-      .insert({
-        page_id: pageId,
-        type,
-        content,
-        position: newPosition,
-      })
-      .select()
-      .single();
+    const { data, error } = await supabase.rpc('insert_block_at', {
+      p_page_id: pageId,
+      p_type: type,
+      p_content: content,
+      p_position: position,
+      p_after_block_id: before?.id,
+      p_parent_block_id: parentId ?? undefined,
+    });
+
+    if (isPositionConflict(error) && retry) {
+      await rebalanceBlocks(getBlocks());
+      return insertAt(afterId, type, content, parentId, false);
+    }
 
     if (!error && data) {
-      setBlocks((prev) => {
-        const updated = [...prev, data as Block].sort((a, b) => a.position - b.position);
-        return updated;
-      });
+      const block = data as Block;
+      setBlocks((prev) => [...prev.filter((b) => b.id !== block.id), block].sort(comparePositions));
+      refreshTags(undefined, block);
+
+      if (needsRebalance(position)) {
+        await rebalanceBlocks(getBlocks());
+      }
     }
 
-    return { data, error };
+    return { data: data as Block | null, error };
   };
 
-  const updateBlock = async (
-    id: string,
-    updates: Partial<Pick<Block, 'type' | 'content' | 'checked' | 'position'>>
-  ) => {
-    const { data, error } = await supabase
-      .from('blocks')
-      .update(updates)
-      .eq('id', id)
-      .select()
-      .single();
+  const createBlock = async (type: BlockType = 'paragraph', content: string = '') => {
+    const list = getBlocks();
+    return insertAt(list[list.length - 1]?.id ?? null, type, content);
+  };
 
-    if (!error && data) {
-      setBlocks((prev) =>
-        prev.map((b) => (b.id === id ? (data as Block) : b)).sort((a, b) => a.position - b.position)
-      );
+  // Applied locally right away; rolled back with a toast if the write fails
+  const updateBlock = async (id: string, updates: BlockUpdates) => {
+    try {
+      const data = await updateMutation.mutateAsync({ id, updates });
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
     }
-
-    return { data, error };
   };
 
   const deleteBlock = async (id: string) => {
-    const { error } = await supabase.from('blocks').delete().eq('id', id);
+    try {
+      await deleteMutation.mutateAsync(id);
+      return { error: null };
+    } catch (error) {
+      return { error: error as Error };
+    }
+  };
 
-    if (!error) {
-      setBlocks((prev) => prev.filter((b) => b.id !== id));
+  // The new block goes right below afterId: as its first child when it has
+  // children, otherwise as its next sibling
+  const insertBlockAfter = async (afterId: string, type: BlockType = 'paragraph', content: string = '') => {
+    const blocks = getBlocks();
+    const afterIndex = blocks.findIndex((b) => b.id === afterId);
+    if (afterIndex === -1) return createBlock(type, content);
+
+    const nesting = getBlockNesting(blocks);
+    const next = blocks[afterIndex + 1];
+    const parentId = next && nesting.get(next.id)?.parentId === afterId ? afterId : nesting.get(afterId)!.parentId;
+    return insertAt(afterId, type, content, parentId);
+  };
+
+  // Move a set of blocks (kept in their current relative order, and carrying
+  // the blocks nested under them) so they sit before the block currently at
+  // targetIndex. They stay nested where they were if that still fits at the
+  // new spot, and otherwise become siblings of the block they land before.
+  const moveBlocks = async (ids: string[], targetIndex: number) => {
+    const blocks = getBlocks();
+    const nesting = getBlockNesting(blocks);
+    const movingIds = new Set(withDescendants(blocks, nesting, ids));
+    const moving = blocks.filter((b) => movingIds.has(b.id));
+    const before = blocks.slice(0, targetIndex).filter((b) => !movingIds.has(b.id));
+    const after = blocks.slice(targetIndex).filter((b) => !movingIds.has(b.id));
+
+    const parentFor = (b: Block) => {
+      const parentId = nesting.get(b.id)!.parentId;
+      if (parentId && movingIds.has(parentId)) return parentId;
+      return parentAtInsertion(nesting, before[before.length - 1], after[0], parentId);
+    };
+    const unchanged =
+      [...before, ...moving, ...after].every((b, index) => b.id === blocks[index].id) &&
+      moving.every((b) => parentFor(b) === nesting.get(b.id)!.parentId);
+    if (moving.length === 0 || unchanged) return { data: null, error: null };
+
+    // Only the moved blocks get new keys, between their new neighbours
+    const keys = generateNKeysBetween(
+      before[before.length - 1]?.position ?? null,
+      after[0]?.position ?? null,
+      moving.length
+    );
+    const moved = moving.map((b, index) => ({ ...b, position: keys[index], parent_block_id: parentFor(b) }));
+    const previous = blocks;
+    setBlocks([...before, ...moved, ...after]);
+
+    const { error } = await supabase.rpc('move_blocks', {
+      p_page_id: pageId,
+      p_block_ids: moved.map((b) => b.id),
+      p_positions: keys,
+      p_parent_ids: moved.map((b) => b.parent_block_id),
+    });
+
+    if (error) {
+      console.error('Error reordering blocks:', error);
+      setBlocks(previous);
+      toast.error('Failed to move blocks');
+    }
+
+    return { data: error ? null : moved, error };
+  };
+
+  // Put blocks back at previously recorded positions (used by undo/redo)
+  const setBlockPositions = async (positions: BlockPosition[]) => {
+    if (!pageId || positions.length === 0) return { error: null };
+
+    const byId = new Map(positions.map((p) => [p.id, p]));
+    const previous = getBlocks();
+    setBlocks((prev) => prev.map((b) => ({ ...b, ...byId.get(b.id) })).sort(comparePositions));
+
+    const { error } = await supabase.rpc('move_blocks', {
+      p_page_id: pageId,
+      p_block_ids: positions.map((p) => p.id),
+      p_positions: positions.map((p) => p.position),
+      p_parent_ids: positions.map((p) => p.parent_block_id),
+    });
+
+    if (error) {
+      console.error('Error restoring block positions:', error);
+      setBlocks(previous);
+      toast.error('Failed to move blocks');
     }
 
     return { error };
   };
 
-  const insertBlockAfter = async (afterId: string, type: BlockType = 'paragraph') => {
-    const afterIndex = blocks.findIndex((b) => b.id === afterId);
-    if (afterIndex === -1) return createBlock(type);
+  // Re-nest blocks without moving them (indent and outdent)
+  const setBlockParents = async (changes: { id: string; parent_block_id: string | null }[]) => {
+    if (!pageId || changes.length === 0) return { data: null, error: null };
 
-    // Shift all blocks after this one
-    const blocksToUpdate = blocks.slice(afterIndex + 1);
-    for (const block of blocksToUpdate) {
-      await supabase
-        .from('blocks')
-        .update({ position: block.position + 1 })
-        .eq('id', block.id);
+    const blocks = getBlocks();
+    const positions = changes.flatMap(({ id, parent_block_id }) => {
+      const block = blocks.find((b) => b.id === id);
+      return block ? [{ id, position: block.position, parent_block_id }] : [];
+    });
+    const { error } = await setBlockPositions(positions);
+
+    return { data: error ? null : positions, error };
+  };
+
+  // Bring a deleted block back from the trash with its original position.
+  // Upserting also recreates it if it has been purged since.
+  const restoreBlock = async (block: Block) => {
+    const { data, error } = await supabase
+      .from('blocks')
+      .upsert({
+        id: block.id,
+        page_id: block.page_id,
+        type: block.type,
+        content: block.content,
+        checked: block.checked,
+        position: block.position,
+        parent_block_id: block.parent_block_id,
+        deleted_at: null,
+      })
+      .select()
+      .single();
+
+    if (!error && data && data.page_id === pageId) {
+      setBlocks((prev) => [...prev.filter((b) => b.id !== block.id), data as Block].sort(comparePositions));
     }
+    if (!error) refreshTags(undefined, block);
+
+    return { data: data as Block | null, error };
+  };
+
+  // Move a block, with the blocks nested under it, to the end of another page
+  const moveBlockToPage = async (id: string, targetPageId: string) => {
+    const blocks = getBlocks();
+    const nesting = getBlockNesting(blocks);
+    const ids = withDescendants(blocks, nesting, [id]);
+
+    const { data: last } = await supabase
+      .from('blocks')
+      .select('position')
+      .eq('page_id', targetPageId)
+      .is('deleted_at', null)
+      .order('position', { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
-    return createBlock(type, '', afterIndex + 1);
+    const { error } = await supabase.rpc('move_blocks', {
+      p_page_id: targetPageId,
+      p_block_ids: ids,
+      p_positions: generateNKeysBetween(last?.position ?? null, null, ids.length),
+      p_parent_ids: ids.map((b) => (b === id ? null : nesting.get(b)!.parentId)),
+    });
+
+    if (!error) {
+      const moved = blocks.filter((b) => ids.includes(b.id));
+      setBlocks((prev) => prev.filter((b) => !ids.includes(b.id)));
+      moved.forEach((block) => refreshTags(block));
+    }
+
+    return { error };
   };
 
   return {
     blocks,
     loading,
+    getBlocks,
     createBlock,
     updateBlock,
     deleteBlock,
     insertBlockAfter,
-    refetch: fetchBlocks,
+    moveBlocks,
+    moveBlockToPage,
+    setBlockPositions,
+    setBlockParents,
+    restoreBlock,
+    rebalanceBlocks: () => rebalanceBlocks(getBlocks()),
+    refetch,
   };
 }
@@ -0,0 +1,145 @@
+import { useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Block } from './useBlocks';
+import { Page, usePages } from './usePages';
+import { queryKeys } from '@/lib/queryKeys';
+import { comparePositions } from '@/lib/fractionalIndex';
+import { PageRefResolver, escapeText } from '@/lib/richText';
+import {
+  LinkSnippet,
+  escapeLikePattern,
+  findMention,
+  findPageLink,
+  linkMention,
+  pageRefPattern,
+} from '@/lib/pageLinks';
+
+type BacklinkBlock = Pick<Block, 'id' | 'page_id' | 'type' | 'content' | 'position'>;
+
+export interface Backlink {
+  block: BacklinkBlock;
+  snippet: LinkSnippet;
+}
+
+// Backlinks grouped by the page they are on
+export interface BacklinkGroup {
+  page: Page;
+  links: Backlink[];
+}
+
+// Unlinked mentions are only looked for in this many candidate blocks
+const MENTION_CANDIDATE_LIMIT = 200;
+
+const BACKLINK_COLUMNS = 'id, page_id, type, content, position';
+
+async function fetchBacklinks(pageId: string, title: string) {
+  const linked = supabase
+    .from('blocks')
+    .select(BACKLINK_COLUMNS)
+    .is('deleted_at', null)
+    .neq('page_id', pageId)
+    .like('content', pageRefPattern(pageId));
+
+  // Code blocks can't hold references, so they can't have mentions to link.
+  // Content is stored escaped, so the title must be too.
+  const mentions = title.trim()
+    ? supabase
+        .from('blocks')
+        .select(BACKLINK_COLUMNS)
+        .is('deleted_at', null)
+        .neq('page_id', pageId)
+        .neq('type', 'code')
+        .ilike('content', `%${escapeLikePattern(escapeText(title))}%`)
+        .limit(MENTION_CANDIDATE_LIMIT)
+    : null;
+
+  const [linkedResult, mentionsResult] = await Promise.all([linked, mentions]);
+  const error = linkedResult.error ?? mentionsResult?.error;
+
+  if (error) {
+    console.error('Error fetching backlinks:', error);
+    throw error;
+  }
+  return {
+    linked: (linkedResult.data as BacklinkBlock[]) || [],
+    mentions: (mentionsResult?.data as BacklinkBlock[]) || [],
+  };
+}
+
+function groupByPage(links: Backlink[], pages: Page[]): BacklinkGroup[] {
+  return pages
+    .map((page) => ({
+      page,
+      links: links
+        .filter((l) => l.block.page_id === page.id)
+        .sort((a, b) => comparePositions(a.block, b.block)),
+    }))
+    .filter((group) => group.links.length > 0)
+    .sort((a, b) => b.page.updated_at.localeCompare(a.page.updated_at));
+}
+
+export function usePageBacklinks(pageId: string | null, title: string) {
+  const { pages } = usePages();
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.backlinks(pageId, title);
+
+  const { data, isLoading: loading, error } = useQuery({
+    queryKey,
+    queryFn: () => fetchBacklinks(pageId!, title),
+    enabled: !!pageId,
+  });
+
+  const resolvePage: PageRefResolver = useMemo(() => {
+    const byId = new Map(pages.map((p) => [p.id, p]));
+    return (refId) => {
+      const page = byId.get(refId);
+      return page ? { title: page.title, icon: page.icon } : null;
+    };
+  }, [pages]);
+
+  // Only blocks on live pages count; branch and trashed pages aren't in `pages`
+  const { linked, unlinked } = useMemo(() => {
+    if (!data || !pageId) return { linked: [], unlinked: [] };
+
+    const linkedLinks = data.linked.flatMap((block) => {
+      const snippet = findPageLink(block.content, pageId, resolvePage);
+      return snippet ? [{ block, snippet }] : [];
+    });
+    const mentionLinks = data.mentions.flatMap((block) => {
+      const snippet = findMention(block.content, title, resolvePage);
+      return snippet ? [{ block, snippet }] : [];
+    });
+
+    return {
+      linked: groupByPage(linkedLinks, pages),
+      unlinked: groupByPage(mentionLinks, pages),
+    };
+  }, [data, pageId, title, pages, resolvePage]);
+
+  // Turn the first unlinked mention in a block into a reference to this page
+  const linkBlockMention = async (block: BacklinkBlock) => {
+    if (!pageId) return { error: null };
+    const content = linkMention(block.content, pageId, title);
+    if (content === null) return { error: null };
+
+    const { error } = await supabase.from('blocks').update({ content }).eq('id', block.id);
+
+    if (error) {
+      console.error('Error linking mention:', error);
+    } else {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: queryKeys.blocks(block.page_id) });
+    }
+
+    return { error };
+  };
+
+  return {
+    linked,
+    unlinked,
+    loading,
+    error,
+    linkBlockMention,
+  };
+}
@@ -0,0 +1,95 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { BlockSnapshot } from '@/lib/blockDiff';
+import { queryKeys } from '@/lib/queryKeys';
+
+export interface PageBranch {
+  // Id of the branch's hidden page, which holds its blocks
+  id: string;
+  branch_name: string;
+  // The main page's blocks when the branch was created
+  branch_base: BlockSnapshot[];
+  created_at: string;
+}
+
+const EMPTY_BRANCHES: PageBranch[] = [];
+
+export function isMergeConflict(error: { message: string } | null) {
+  return !!error?.message.includes('merge_conflict');
+}
+
+async function fetchBranches(pageId: string) {
+  const { data, error } = await supabase
+    .from('pages')
+    .select('id, branch_name, branch_base, created_at')
+    .eq('branch_of', pageId)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching branches:', error);
+    throw error;
+  }
+  return (data as unknown as PageBranch[]) || [];
+}
+
+export function usePageBranches(pageId: string) {
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.pageBranches(pageId);
+
+  const { data: branches = EMPTY_BRANCHES, isLoading: loading } = useQuery({
+    queryKey,
+    queryFn: () => fetchBranches(pageId),
+  });
+
+  const removeBranch = (branchId: string) => {
+    queryClient.setQueryData<PageBranch[]>(queryKey, (prev = []) => prev.filter((b) => b.id !== branchId));
+    queryClient.removeQueries({ queryKey: queryKeys.blocks(branchId) });
+  };
+
+  const createBranch = async (name: string) => {
+    const { data, error } = await supabase.rpc('create_page_branch', { p_page_id: pageId, p_name: name });
+
+    const branch = data as unknown as PageBranch | null;
+    if (!error && branch) {
+      queryClient.setQueryData<PageBranch[]>(queryKey, (prev = []) => [...prev, branch]);
+    }
+
+    return { data: branch, error };
+  };
+
+  const deleteBranch = async (branchId: string) => {
+    const { error } = await supabase.rpc('delete_page', { p_page_id: branchId });
+
+    if (!error) {
+      removeBranch(branchId);
+    }
+
+    return { error };
+  };
+
+  // Write the merged blocks to the main page and drop the branch. `main` is
+  // the main page's blocks the merge was computed from; if main has changed
+  // since, nothing is written and main's blocks are refetched to merge again.
+  const mergeBranch = async (branchId: string, blocks: BlockSnapshot[], main: BlockSnapshot[]) => {
+    const { error } = await supabase.rpc('merge_page_branch', {
+      p_branch_id: branchId,
+      p_blocks: blocks as unknown as Json,
+      p_main_blocks: main as unknown as Json,
+    });
+
+    if (isMergeConflict(error)) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.blocks(pageId) });
+    } else if (!error) {
+      removeBranch(branchId);
+      queryClient.invalidateQueries({ queryKey: queryKeys.blocks(pageId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.pageVersions(pageId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.allPageTags });
+    }
+
+    return { error };
+  };
+
+  return { branches, loading, createBranch, deleteBranch, mergeBranch };
+}
@@ -0,0 +1,40 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { queryKeys } from '@/lib/queryKeys';
+import { PageLink } from '@/lib/pageGraph';
+import { extractPageRefs } from '@/lib/pageLinks';
+
+const EMPTY_LINKS: PageLink[] = [];
+
+// Blocks that may hold a reference; their content is parsed to be sure
+async function fetchPageLinks() {
+  const { data, error } = await supabase
+    .from('blocks')
+    .select('page_id, content')
+    .is('deleted_at', null)
+    .neq('type', 'code')
+    .like('content', '%[[%');
+
+  if (error) {
+    console.error('Error fetching page links:', error);
+    throw error;
+  }
+  return (data || []).flatMap(({ page_id, content }) =>
+    extractPageRefs(content).map((target) => ({ source: page_id, target }))
+  );
+}
+
+// Links between pages from references in their blocks. Links on branch or
+// trashed pages are included; callers keep the ones between pages they show.
+export function usePageLinks() {
+  const { user } = useAuth();
+
+  const { data: links = EMPTY_LINKS, isLoading: loading } = useQuery({
+    queryKey: queryKeys.pageLinks(user?.id ?? null),
+    queryFn: fetchPageLinks,
+    enabled: !!user,
+  });
+
+  return { links, loading };
+}
@@ -0,0 +1,173 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useAuth } from './useAuth';
+import { queryKeys } from '@/lib/queryKeys';
+
+export type PropertyType = 'text' | 'number' | 'select' | 'multi_select' | 'date' | 'person' | 'url' | 'checkbox';
+
+export interface PageProperty {
+  id: string;
+  user_id: string;
+  name: string;
+  type: PropertyType;
+  // Choices of a select or multi-select property
+  options: string[];
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// A string for text, person, URL, select and date ('YYYY-MM-DD'), a number,
+// a boolean for checkbox, and the chosen options for multi-select
+export type PropertyValue = string | number | boolean | string[];
+
+export interface PagePropertyValue {
+  page_id: string;
+  property_id: string;
+  value: PropertyValue;
+}
+
+interface PropertiesData {
+  properties: PageProperty[];
+  values: PagePropertyValue[];
+}
+
+const EMPTY_DATA: PropertiesData = { properties: [], values: [] };
+
+async function fetchProperties(): Promise<PropertiesData> {
+  const [properties, values] = await Promise.all([
+    supabase.from('page_properties').select('*').order('position', { ascending: true }),
+    supabase.from('page_property_values').select('page_id, property_id, value'),
+  ]);
+
+  const error = properties.error ?? values.error;
+  if (error) {
+    console.error('Error fetching page properties:', error);
+    throw error;
+  }
+  return {
+    properties: (properties.data as PageProperty[]) || [],
+    values: (values.data as PagePropertyValue[]) || [],
+  };
+}
+
+// The user's property schema and every page's values, shared like the page
+// list so the sidebar can sort and filter on them
+export function usePageProperties() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.pageProperties(user?.id ?? null);
+
+  const { data = EMPTY_DATA, isLoading: loading } = useQuery({
+    queryKey,
+    queryFn: fetchProperties,
+    enabled: !!user,
+  });
+  const { properties, values } = data;
+
+  const setData = (update: (prev: PropertiesData) => PropertiesData) => {
+    queryClient.setQueryData<PropertiesData>(queryKey, (prev = EMPTY_DATA) => update(prev));
+  };
+
+  // propertyId -> value, per page
+  const valuesByPage = useMemo(() => {
+    const byPage = new Map<string, Record<string, PropertyValue>>();
+    values.forEach((v) => {
+      byPage.set(v.page_id, { ...byPage.get(v.page_id), [v.property_id]: v.value });
+    });
+    return byPage;
+  }, [values]);
+
+  const getPageValues = useCallback(
+    (pageId: string): Record<string, PropertyValue> => valuesByPage.get(pageId) ?? {},
+    [valuesByPage]
+  );
+
+  const createProperty = async (name: string, type: PropertyType) => {
+    if (!user) return { data: null, error: new Error('Not authenticated') };
+
+    const position = properties.length > 0 ? properties[properties.length - 1].position + 1 : 0;
+    const { data: property, error } = await supabase
+      .from('page_properties')
+      .insert({ user_id: user.id, name, type, position })
+      .select()
+      .single();
+
+    if (!error && property) {
+      setData((prev) => ({ ...prev, properties: [...prev.properties, property as PageProperty] }));
+    }
+
+    return { data: property as PageProperty | null, error };
+  };
+
+  const updateProperty = async (id: string, updates: Partial<Pick<PageProperty, 'name' | 'options'>>) => {
+    const { data: property, error } = await supabase
+      .from('page_properties')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (!error && property) {
+      setData((prev) => ({
+        ...prev,
+        properties: prev.properties.map((p) => (p.id === id ? (property as PageProperty) : p)),
+      }));
+    }
+
+    return { data: property as PageProperty | null, error };
+  };
+
+  // Removes the property from every page
+  const deleteProperty = async (id: string) => {
+    const { error } = await supabase.from('page_properties').delete().eq('id', id);
+
+    if (!error) {
+      setData((prev) => ({
+        properties: prev.properties.filter((p) => p.id !== id),
+        values: prev.values.filter((v) => v.property_id !== id),
+      }));
+    }
+
+    return { error };
+  };
+
+  // Applied locally right away and rolled back if the write fails. A null
+  // value unsets the property on the page.
+  const setValue = async (pageId: string, propertyId: string, value: PropertyValue | null) => {
+    const isTarget = (v: PagePropertyValue) => v.page_id === pageId && v.property_id === propertyId;
+    const previous = data.values.find(isTarget);
+    const replaceValue = (next: PagePropertyValue | undefined) =>
+      setData((prev) => ({
+        ...prev,
+        values: [...prev.values.filter((v) => !isTarget(v)), ...(next ? [next] : [])],
+      }));
+    replaceValue(value === null ? undefined : { page_id: pageId, property_id: propertyId, value });
+
+    const { error } =
+      value === null
+        ? await supabase.from('page_property_values').delete().eq('page_id', pageId).eq('property_id', propertyId)
+        : await supabase
+            .from('page_property_values')
+            .upsert({ page_id: pageId, property_id: propertyId, value: value as Json });
+
+    if (error) {
+      console.error('Error setting property value:', error);
+      replaceValue(previous);
+    }
+
+    return { error };
+  };
+
+  return {
+    properties,
+    loading,
+    getPageValues,
+    createProperty,
+    updateProperty,
+    deleteProperty,
+    setValue,
+  };
+}
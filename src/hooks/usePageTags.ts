@@ -0,0 +1,132 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { usePages } from './usePages';
+import { normalizeTag } from '@/lib/tags';
+import { queryKeys } from '@/lib/queryKeys';
+
+export interface PageTagRow {
+  page_id: string;
+  tag: string;
+  // 'manual' tags are added in the page header; 'inline' ones come from #tags
+  // in the page's blocks
+  source: 'manual' | 'inline';
+}
+
+export interface PageTag {
+  tag: string;
+  manual: boolean;
+  inline: boolean;
+}
+
+const EMPTY_TAGS: PageTagRow[] = [];
+
+async function fetchTags() {
+  const { data, error } = await supabase.from('page_tags').select('page_id, tag, source');
+
+  if (error) {
+    console.error('Error fetching tags:', error);
+    throw error;
+  }
+  return (data as PageTagRow[]) || [];
+}
+
+export function usePageTags() {
+  const { user } = useAuth();
+  const { pages } = usePages();
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.pageTags(user?.id ?? null);
+
+  const { data: rows = EMPTY_TAGS } = useQuery({
+    queryKey,
+    queryFn: fetchTags,
+    enabled: !!user,
+  });
+
+  const setRows = (update: (prev: PageTagRow[]) => PageTagRow[]) => {
+    queryClient.setQueryData<PageTagRow[]>(queryKey, (prev = []) => update(prev));
+  };
+
+  // Tags of live pages only, so trashed pages drop out of the counts
+  const tagsByPage = useMemo(() => {
+    const liveIds = new Set(pages.map((p) => p.id));
+    const byPage = new Map<string, Map<string, PageTag>>();
+    rows.forEach(({ page_id, tag, source }) => {
+      if (!liveIds.has(page_id)) return;
+      const pageTags = byPage.get(page_id) ?? new Map<string, PageTag>();
+      const entry = pageTags.get(tag) ?? { tag, manual: false, inline: false };
+      pageTags.set(tag, { ...entry, [source]: true });
+      byPage.set(page_id, pageTags);
+    });
+    return byPage;
+  }, [rows, pages]);
+
+  // Every tag in use with its page count, most used first
+  const tags = useMemo(() => {
+    const counts = new Map<string, number>();
+    tagsByPage.forEach((pageTags) => {
+      pageTags.forEach(({ tag }) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+    });
+    return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+      (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+    );
+  }, [tagsByPage]);
+
+  const getPageTags = useCallback(
+    (pageId: string): PageTag[] =>
+      Array.from(tagsByPage.get(pageId)?.values() ?? []).sort((a, b) => a.tag.localeCompare(b.tag)),
+    [tagsByPage]
+  );
+
+  const getTaggedPageIds = useCallback(
+    (tag: string) => Array.from(tagsByPage).filter(([, pageTags]) => pageTags.has(tag)).map(([pageId]) => pageId),
+    [tagsByPage]
+  );
+
+  const addTag = async (pageId: string, input: string) => {
+    const tag = normalizeTag(input);
+    if (!tag) return { data: null, error: new Error('Invalid tag') };
+
+    const row: PageTagRow = { page_id: pageId, tag, source: 'manual' };
+    setRows((prev) => [...prev.filter((r) => !(r.page_id === pageId && r.tag === tag && r.source === 'manual')), row]);
+
+    const { error } = await supabase.from('page_tags').upsert(row);
+
+    if (error) {
+      console.error('Error adding tag:', error);
+      setRows((prev) => prev.filter((r) => r !== row));
+    }
+
+    return { data: error ? null : tag, error };
+  };
+
+  // Inline tags stay until they are removed from the page's blocks
+  const removeTag = async (pageId: string, tag: string) => {
+    const isTarget = (r: PageTagRow) => r.page_id === pageId && r.tag === tag && r.source === 'manual';
+    const previous = rows.find(isTarget);
+    setRows((prev) => prev.filter((r) => !isTarget(r)));
+
+    const { error } = await supabase
+      .from('page_tags')
+      .delete()
+      .eq('page_id', pageId)
+      .eq('tag', tag)
+      .eq('source', 'manual');
+
+    if (error) {
+      console.error('Error removing tag:', error);
+      if (previous) setRows((prev) => [...prev, previous]);
+    }
+
+    return { error };
+  };
+
+  return {
+    tags,
+    getPageTags,
+    getTaggedPageIds,
+    addTag,
+    removeTag,
+  };
+}
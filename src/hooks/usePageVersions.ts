@@ -0,0 +1,106 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { BlockSnapshot } from '@/lib/blockDiff';
+import { queryKeys } from '@/lib/queryKeys';
+
+export type VersionReason = 'auto' | 'manual' | 'restore' | 'merge';
+
+export interface PageVersion {
+  id: string;
+  page_id: string;
+  author_id: string | null;
+  author_name: string | null;
+  reason: VersionReason;
+  // The version a 'restore' version was restored from
+  restored_from: string | null;
+  title: string;
+  blocks: BlockSnapshot[];
+  created_at: string;
+}
+
+// How often an open page is snapshotted (only if it changed)
+const AUTO_SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+
+const EMPTY_VERSIONS: PageVersion[] = [];
+
+async function fetchVersions(pageId: string) {
+  const { data, error } = await supabase
+    .from('page_versions')
+    .select('*')
+    .eq('page_id', pageId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching page versions:', error);
+    throw error;
+  }
+  return (data as unknown as PageVersion[]) || [];
+}
+
+// Newest first
+export function usePageVersions(pageId: string | null) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.pageVersions(pageId);
+
+  const { data: versions = EMPTY_VERSIONS, isLoading: loading } = useQuery({
+    queryKey,
+    queryFn: () => fetchVersions(pageId!),
+    enabled: !!pageId,
+  });
+
+  const saveVersion = async () => {
+    if (!pageId) return { data: null, error: new Error('No page selected') };
+
+    const { data, error } = await supabase.rpc('snapshot_page', { p_page_id: pageId, p_reason: 'manual' });
+
+    if (!error && data) {
+      queryClient.setQueryData<PageVersion[]>(queryKey, (prev = []) => [data as unknown as PageVersion, ...prev]);
+    }
+
+    return { data: data as unknown as PageVersion | null, error };
+  };
+
+  // Restoring rewrites the page's title and blocks on the server, so the
+  // cached page list and blocks are refetched
+  const restoreVersion = async (versionId: string) => {
+    const { data, error } = await supabase.rpc('restore_page_version', { p_version_id: versionId });
+
+    if (!error) {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: queryKeys.blocks(pageId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.pages(user?.id ?? null) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.pageTags(user?.id ?? null) });
+    }
+
+    return { data: data as unknown as PageVersion | null, error };
+  };
+
+  return { versions, loading, saveVersion, restoreVersion };
+}
+
+// Snapshot the open page periodically and when it is closed. The server
+// skips the snapshot when nothing changed since the latest version.
+export function useAutoSnapshot(pageId: string) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const snapshot = async () => {
+      const { data, error } = await supabase.rpc('snapshot_page', { p_page_id: pageId, p_reason: 'auto' });
+      if (error) {
+        console.error('Error snapshotting page:', error);
+      } else if (data?.id) {
+        // A skipped snapshot comes back as a row of nulls
+        queryClient.invalidateQueries({ queryKey: queryKeys.pageVersions(pageId) });
+      }
+    };
+
+    const interval = window.setInterval(snapshot, AUTO_SNAPSHOT_INTERVAL_MS);
+    return () => {
+      window.clearInterval(interval);
+      snapshot();
+    };
+  }, [pageId, queryClient]);
+}
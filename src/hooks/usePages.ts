@@ -1,6 +1,12 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useCallback, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
+import { comparePositions, generateKeyBetween } from '@/lib/fractionalIndex';
+import { queryKeys } from '@/lib/queryKeys';
+
+export type PageStatus = 'in_progress' | 'draft' | 'complete' | 'archived';
 
 export interface Page {
   id: string;
@@ -10,7 +16,11 @@ export interface Page {
   cover_image: string | null;
   parent_page_id: string | null;
   is_favorite: boolean;
-  position: number;
+  status: PageStatus;
+  position: string;
+  // Set on a branch's hidden page; those never appear in the page list
+  branch_of: string | null;
+  deleted_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -20,47 +30,112 @@ export interface PageTreeNode extends Page {
   depth: number;
 }
 
+type PageUpdates = Partial<
+  Pick<Page, 'title' | 'icon' | 'cover_image' | 'is_favorite' | 'status' | 'position' | 'parent_page_id'>
+>;
+
+const EMPTY_PAGES: Page[] = [];
+
+// Loads trashed pages too; usePages splits them out of the live list
+async function fetchPages() {
+  const { data, error } = await supabase
+    .from('pages')
+    .select('*')
+    .is('branch_of', null)
+    .order('position', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching pages:', error);
+    throw error;
+  }
+  return data || [];
+}
+
+// Every caller shares one cached page list, so a mutation made anywhere
+// (sidebar, page view, editor) shows up everywhere immediately
 export function usePages() {
-  const [pages, setPages] = useState<Page[]>([]);
-  const [loading, setLoading] = useState(true);
   const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.pages(user?.id ?? null);
 
-  const fetchPages = useCallback(async () => {
-    if (!user) {
-      setPages([]);
-      setLoading(false);
-      return;
-    }
+  const { data: allPages = EMPTY_PAGES, isLoading: loading, refetch } = useQuery({
+    queryKey,
+    queryFn: fetchPages,
+    enabled: !!user,
+  });
 
-    setLoading(true);
-    const { data, error } = await supabase
-      .from('pages')
-      .select('*')
-      .order('position', { ascending: true });
+  const pages = useMemo(() => allPages.filter((p) => !p.deleted_at), [allPages]);
+  const trashedPages = useMemo(() => allPages.filter((p) => p.deleted_at), [allPages]);
 
-    if (error) {
-      console.error('Error fetching pages:', error);
-    } else {
-      setPages(data || []);
-    }
-    setLoading(false);
-  }, [user]);
+  // Pages trashed on their own, newest first. Their descendants were trashed
+  // along with them (same deleted_at) and are listed under them.
+  const trash = useMemo(
+    () =>
+      trashedPages
+        .filter((p) => {
+          const parent = trashedPages.find((t) => t.id === p.parent_page_id);
+          return !parent || parent.deleted_at !== p.deleted_at;
+        })
+        .sort((a, b) => (b.deleted_at ?? '').localeCompare(a.deleted_at ?? '')),
+    [trashedPages]
+  );
 
-  useEffect(() => {
-    fetchPages();
-  }, [fetchPages]);
+  const getTrashedChildren = useCallback(
+    (pageId: string): Page[] => {
+      const page = trashedPages.find((p) => p.id === pageId);
+      return trashedPages
+        .filter((p) => p.parent_page_id === pageId && p.deleted_at === page?.deleted_at)
+        .sort(comparePositions);
+    },
+    [trashedPages]
+  );
+
+  const setPages = (update: (prev: Page[]) => Page[]) => {
+    queryClient.setQueryData<Page[]>(queryKey, (prev = []) => update(prev));
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: PageUpdates }) => {
+      const { data, error } = await supabase
+        .from('pages')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onMutate: async ({ id, updates }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<Page[]>(queryKey)?.find((p) => p.id === id);
+      setPages((prev) => prev.map((p) => (p.id === id ? { ...p, ...updates } : p)));
+      return { previous };
+    },
+    onError: (error, { id }, context) => {
+      console.error('Error updating page:', error);
+      const previous = context?.previous;
+      if (previous) {
+        setPages((prev) => prev.map((p) => (p.id === id ? previous : p)));
+      }
+      toast.error('Failed to update page');
+    },
+    onSuccess: (data) => {
+      setPages((prev) => prev.map((p) => (p.id === data.id ? data : p)));
+    },
+  });
 
   // Get child pages of a parent
   const getChildPages = useCallback(
     (parentId: string | null): Page[] => {
-      return pages.filter((p) => p.parent_page_id === parentId);
+      return pages.filter((p) => p.parent_page_id === parentId).sort(comparePositions);
     },
     [pages]
   );
 
   // Get root pages (no parent)
   const rootPages = useMemo(
-    () => pages.filter((p) => !p.parent_page_id),
+    () => pages.filter((p) => !p.parent_page_id).sort(comparePositions),
     [pages]
   );
 
@@ -123,60 +198,78 @@ export function usePages() {
   const createPage = async (title: string = 'Untitled', parentPageId?: string | null) => {
     if (!user) return { data: null, error: new Error('Not authenticated') };
 
-    // Calculate position among siblings
-    const siblings = parentPageId 
-      ? pages.filter(p => p.parent_page_id === parentPageId)
-      : pages.filter(p => !p.parent_page_id);
-    
+    // Place the page after its last sibling
+    const siblings = getChildPages(parentPageId || null);
+
     const { data, error } = await supabase
       .from('pages')
       .insert({
         title,
         user_id: user.id,
         parent_page_id: parentPageId || null,
-        position: siblings.length,
+        position: generateKeyBetween(siblings[siblings.length - 1]?.position ?? null, null),
       })
       .select()
       .single();
 
     if (!error && data) {
-      setPages((prev) => [...prev, data]);
+      setPages((prev) => [...prev.filter((p) => p.id !== data.id), data]);
     }
 
     return { data, error };
   };
 
-  const updatePage = async (
-    id: string,
-    updates: Partial<Pick<Page, 'title' | 'icon' | 'cover_image' | 'is_favorite' | 'position' | 'parent_page_id'>>
-  ) => {
-    const { data, error } = await supabase
-      .from('pages')
-      .update(updates)
-      .eq('id', id)
-      .select()
-      .single();
+  // Applied locally right away; rolled back with a toast if the write fails
+  const updatePage = async (id: string, updates: PageUpdates) => {
+    try {
+      const data = await updateMutation.mutateAsync({ id, updates });
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  };
 
-    if (!error && data) {
-      setPages((prev) => prev.map((p) => (p.id === id ? data : p)));
+  // Move a page and its subtree to the trash
+  const trashPage = async (id: string) => {
+    const { data, error } = await supabase.rpc('trash_page', { p_page_id: id });
+
+    if (!error) {
+      const trashedIds = new Set<string>(data || [id]);
+      const deletedAt = new Date().toISOString();
+      setPages((prev) => prev.map((p) => (trashedIds.has(p.id) ? { ...p, deleted_at: deletedAt } : p)));
     }
 
     return { data, error };
   };
 
-  const deletePage = async (id: string) => {
-    // Also deletes children due to cascade, but we need to update local state
-    const descendantIds = new Set<string>();
-    const collectDescendants = (pageId: string) => {
-      descendantIds.add(pageId);
-      getChildPages(pageId).forEach((child) => collectDescendants(child.id));
-    };
-    collectDescendants(id);
+  // Bring a page back from the trash, under its old parent if that is still
+  // around and at the root otherwise, after its new siblings
+  const restorePage = async (id: string) => {
+    const page = allPages.find((p) => p.id === id);
+    const parentId =
+      page?.parent_page_id && pages.some((p) => p.id === page.parent_page_id) ? page.parent_page_id : null;
+    const siblings = getChildPages(parentId);
 
-    const { error } = await supabase.from('pages').delete().eq('id', id);
+    const { data, error } = await supabase.rpc('restore_page', {
+      p_page_id: id,
+      p_position: generateKeyBetween(siblings[siblings.length - 1]?.position ?? null, null),
+    });
+
+    if (!error && data) {
+      const restored = new Map((data as Page[]).map((p) => [p.id, p]));
+      setPages((prev) => prev.map((p) => restored.get(p.id) ?? p));
+    }
+
+    return { error };
+  };
+
+  const deletePagePermanently = async (id: string) => {
+    // Deletes the whole subtree in one transaction and reports which pages went
+    const { data, error } = await supabase.rpc('delete_page', { p_page_id: id });
 
     if (!error) {
-      setPages((prev) => prev.filter((p) => !descendantIds.has(p.id)));
+      const deletedIds = new Set<string>(data || [id]);
+      setPages((prev) => prev.filter((p) => !deletedIds.has(p.id)));
     }
 
     return { error };
@@ -198,11 +291,24 @@ export function usePages() {
       return { error: new Error('Cannot move page to its descendant') };
     }
 
-    return updatePage(pageId, { parent_page_id: newParentId });
+    // Append to the end of the new parent's children
+    const siblings = getChildPages(newParentId).filter((p) => p.id !== pageId);
+    const { data, error } = await supabase.rpc('move_page', {
+      p_page_id: pageId,
+      p_position: generateKeyBetween(siblings[siblings.length - 1]?.position ?? null, null),
+      p_new_parent_id: newParentId ?? undefined,
+    });
+
+    if (!error && data) {
+      setPages((prev) => prev.map((p) => (p.id === pageId ? (data as Page) : p)));
+    }
+
+    return { data, error };
   };
 
   return {
     pages,
+    trash,
     loading,
     rootPages,
     pageTree,
@@ -210,10 +316,36 @@ export function usePages() {
     getAncestors,
     getAncestorIds,
     getDescendantsCount,
+    getTrashedChildren,
     createPage,
     updatePage,
-    deletePage,
+    trashPage,
+    restorePage,
+    deletePagePermanently,
     movePage,
-    refetch: fetchPages,
+    refetch,
   };
 }
+
+async function fetchTrashRetentionDays() {
+  const { data, error } = await supabase.rpc('trash_retention_days');
+
+  if (error) {
+    console.error('Error fetching trash retention:', error);
+    throw error;
+  }
+  return data;
+}
+
+// Days a page stays in the trash before the scheduled purge-trash job
+// deletes it for good; null until loaded
+export function useTrashRetentionDays() {
+  const { user } = useAuth();
+  const { data = null } = useQuery({
+    queryKey: queryKeys.trashRetentionDays,
+    queryFn: fetchTrashRetentionDays,
+    enabled: !!user,
+    staleTime: Infinity,
+  });
+  return data;
+}
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Block } from '@/hooks/useBlocks';
+import { Page } from '@/hooks/usePages';
+import { comparePositions } from '@/lib/fractionalIndex';
+import { queryKeys } from '@/lib/queryKeys';
+
+type Row = { id: string; position: string };
+
+// updated_at differs between an optimistic row and its echo, so it is ignored
+function sameRow<T extends Row>(a: T, b: T) {
+  return (Object.keys(b) as (keyof T)[]).every((key) => key === 'updated_at' || a[key] === b[key]);
+}
+
+// Merge one change event into a cached list. Returns the same array when the
+// event changes nothing (e.g. the echo of our own write).
+function mergeChange<T extends Row>(
+  list: T[],
+  payload: RealtimePostgresChangesPayload<T>,
+  belongs: (row: T) => boolean
+): T[] {
+  if (payload.eventType === 'DELETE') {
+    const id = payload.old.id;
+    return list.some((r) => r.id === id) ? list.filter((r) => r.id !== id) : list;
+  }
+
+  const row = payload.new;
+  const existing = list.find((r) => r.id === row.id);
+  if (!belongs(row)) {
+    return existing ? list.filter((r) => r.id !== row.id) : list;
+  }
+  if (existing && sameRow(existing, row)) return list;
+  return [...list.filter((r) => r.id !== row.id), row].sort(comparePositions);
+}
+
+// Keep the open page's blocks in sync with other tabs and devices. Remote
+// updates to the block being edited are held back until it loses focus, so
+// they never overwrite text that hasn't been saved yet.
+export function useBlocksRealtime(pageId: string, editingBlockId: string | null) {
+  const queryClient = useQueryClient();
+  const [remoteChangeAt, setRemoteChangeAt] = useState<number | null>(null);
+  const editingRef = useRef(editingBlockId);
+  const deferredRef = useRef(new Map<string, RealtimePostgresChangesPayload<Block>>());
+
+  const applyChange = useCallback(
+    (payload: RealtimePostgresChangesPayload<Block>) => {
+      let changed = false;
+      queryClient.setQueryData<Block[]>(queryKeys.blocks(pageId), (prev) => {
+        if (!prev) return prev;
+        const next = mergeChange(prev, payload, (b) => b.page_id === pageId && !b.deleted_at);
+        changed = next !== prev;
+        return next;
+      });
+      if (changed) {
+        setRemoteChangeAt(Date.now());
+      }
+    },
+    [pageId, queryClient]
+  );
+
+  useEffect(() => {
+    editingRef.current = editingBlockId;
+    deferredRef.current.forEach((payload, id) => {
+      if (id !== editingBlockId) {
+        deferredRef.current.delete(id);
+        applyChange(payload);
+      }
+    });
+  }, [editingBlockId, applyChange]);
+
+  useEffect(() => {
+    const deferred = deferredRef.current;
+
+    // Unfiltered: filters only see the new row, which would miss blocks moved
+    // off this page, and deletes can't be filtered at all. RLS still limits
+    // events to the user's own blocks. With RLS, `old` only carries the id, so
+    // deletes and moves off the page are matched against the cached blocks.
+    const isCached = (id: string | undefined) =>
+      !!queryClient.getQueryData<Block[]>(queryKeys.blocks(pageId))?.some((b) => b.id === id);
+
+    const channel = supabase
+      .channel(`blocks:${pageId}`)
+      .on<Block>('postgres_changes', { event: '*', schema: 'public', table: 'blocks' }, (payload) => {
+        if (payload.eventType === 'DELETE') {
+          if (isCached(payload.old.id)) applyChange(payload);
+          return;
+        }
+        if (payload.new.page_id !== pageId && !isCached(payload.new.id)) return;
+
+        if (payload.eventType === 'UPDATE' && payload.new.id === editingRef.current) {
+          deferred.set(payload.new.id, payload);
+          return;
+        }
+        applyChange(payload);
+      })
+      .subscribe();
+
+    return () => {
+      deferred.clear();
+      supabase.removeChannel(channel);
+    };
+  }, [pageId, applyChange, queryClient]);
+
+  return { remoteChangeAt };
+}
+
+// Keep the shared page list in sync with other tabs and devices
+export function usePagesRealtime(userId: string | null) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`pages:${userId}`)
+      .on<Page>('postgres_changes', { event: '*', schema: 'public', table: 'pages' }, (payload) => {
+        queryClient.setQueryData<Page[]>(queryKeys.pages(userId), (prev) =>
+          prev ? mergeChange(prev, payload, (p) => p.user_id === userId && !p.branch_of) : prev
+        );
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+}
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react';
+
+const MAX_RECENT_PAGES = 8;
+
+const storageKey = (userId: string) => `devspace:recent-pages:${userId}`;
+
+function readRecentPages(userId: string | null): string[] {
+  if (!userId) return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(userId)) || '[]');
+    return Array.isArray(stored) ? stored.filter((id) => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+// Most recently opened page ids (newest first), remembered per user in localStorage
+export function useRecentPages(userId: string | null) {
+  const [recentPageIds, setRecentPageIds] = useState<string[]>(() => readRecentPages(userId));
+
+  useEffect(() => {
+    setRecentPageIds(readRecentPages(userId));
+  }, [userId]);
+
+  const addRecentPage = useCallback(
+    (pageId: string) => {
+      if (!userId) return;
+      setRecentPageIds((prev) => {
+        const next = [pageId, ...prev.filter((id) => id !== pageId)].slice(0, MAX_RECENT_PAGES);
+        localStorage.setItem(storageKey(userId), JSON.stringify(next));
+        return next;
+      });
+    },
+    [userId]
+  );
+
+  return { recentPageIds, addRecentPage };
+}
@@ -0,0 +1,56 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { BlockType } from '@/hooks/useBlocks';
+import { PageStatus } from '@/hooks/usePages';
+import type { Json } from '@/integrations/supabase/types';
+import { PropertyFilter } from '@/lib/pageProperties';
+import { queryKeys } from '@/lib/queryKeys';
+
+export interface SearchFilters {
+  blockTypes?: BlockType[];
+  // ISO timestamps; `to` is exclusive
+  from?: string;
+  to?: string;
+  statuses?: PageStatus[];
+  property?: PropertyFilter;
+}
+
+export interface SearchHit {
+  page_id: string;
+  // null for a match in the page title
+  block_id: string | null;
+  block_type: BlockType | null;
+  // Excerpt with matches wrapped in <mark>...</mark>
+  snippet: string;
+  rank: number;
+  updated_at: string;
+}
+
+export function useSearch(query: string, filters: SearchFilters = {}) {
+  const trimmed = query.trim();
+
+  const { data: hits = [], isFetching: loading, error } = useQuery({
+    queryKey: queryKeys.search(trimmed, filters),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('search_workspace', {
+        p_query: trimmed,
+        p_block_types: filters.blockTypes?.length ? filters.blockTypes : undefined,
+        p_from: filters.from,
+        p_to: filters.to,
+        p_statuses: filters.statuses?.length ? filters.statuses : undefined,
+        p_property_id: filters.property?.propertyId,
+        p_property_value: (filters.property?.value ?? undefined) as Json | undefined,
+      });
+
+      if (error) {
+        console.error('Error searching workspace:', error);
+        throw error;
+      }
+      return (data as SearchHit[]) || [];
+    },
+    enabled: trimmed !== '',
+    placeholderData: (previous) => previous,
+  });
+
+  return { hits: trimmed ? hits : [], loading, error };
+}
@@ -19,9 +19,12 @@ export type Database = {
           checked: boolean | null
           content: string | null
           created_at: string
+          deleted_at: string | null
           id: string
           page_id: string
-          position: number
+          parent_block_id: string | null
+          position: string
+          source_block_id: string | null
           type: Database["public"]["Enums"]["block_type"]
           updated_at: string
         }
@@ -29,9 +32,12 @@ export type Database = {
           checked?: boolean | null
           content?: string | null
           created_at?: string
+          deleted_at?: string | null
           id?: string
           page_id: string
-          position?: number
+          parent_block_id?: string | null
+          position?: string
+          source_block_id?: string | null
           type?: Database["public"]["Enums"]["block_type"]
           updated_at?: string
         }
@@ -39,9 +45,12 @@ export type Database = {
           checked?: boolean | null
           content?: string | null
           created_at?: string
+          deleted_at?: string | null
           id?: string
           page_id?: string
-          position?: number
+          parent_block_id?: string | null
+          position?: string
+          source_block_id?: string | null
           type?: Database["public"]["Enums"]["block_type"]
           updated_at?: string
         }
@@ -53,41 +62,212 @@ export type Database = {
             referencedRelation: "pages"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "blocks_parent_block_id_fkey"
+            columns: ["parent_block_id"]
+            isOneToOne: false
+            referencedRelation: "blocks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      page_properties: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          options: string[]
+          position: number
+          type: Database["public"]["Enums"]["property_type"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          options?: string[]
+          position?: number
+          type: Database["public"]["Enums"]["property_type"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          options?: string[]
+          position?: number
+          type?: Database["public"]["Enums"]["property_type"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      page_property_values: {
+        Row: {
+          page_id: string
+          property_id: string
+          updated_at: string
+          value: Json
+        }
+        Insert: {
+          page_id: string
+          property_id: string
+          updated_at?: string
+          value: Json
+        }
+        Update: {
+          page_id?: string
+          property_id?: string
+          updated_at?: string
+          value?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "page_property_values_page_id_fkey"
+            columns: ["page_id"]
+            isOneToOne: false
+            referencedRelation: "pages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "page_property_values_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "page_properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      page_tags: {
+        Row: {
+          created_at: string
+          page_id: string
+          source: string
+          tag: string
+        }
+        Insert: {
+          created_at?: string
+          page_id: string
+          source?: string
+          tag: string
+        }
+        Update: {
+          created_at?: string
+          page_id?: string
+          source?: string
+          tag?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "page_tags_page_id_fkey"
+            columns: ["page_id"]
+            isOneToOne: false
+            referencedRelation: "pages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      page_versions: {
+        Row: {
+          author_id: string | null
+          author_name: string | null
+          blocks: Json
+          created_at: string
+          id: string
+          page_id: string
+          reason: string
+          restored_from: string | null
+          title: string
+        }
+        Insert: {
+          author_id?: string | null
+          author_name?: string | null
+          blocks?: Json
+          created_at?: string
+          id?: string
+          page_id: string
+          reason?: string
+          restored_from?: string | null
+          title: string
+        }
+        Update: {
+          author_id?: string | null
+          author_name?: string | null
+          blocks?: Json
+          created_at?: string
+          id?: string
+          page_id?: string
+          reason?: string
+          restored_from?: string | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "page_versions_page_id_fkey"
+            columns: ["page_id"]
+            isOneToOne: false
+            referencedRelation: "pages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "page_versions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "page_versions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       pages: {
         Row: {
+          branch_base: Json | null
+          branch_name: string | null
+          branch_of: string | null
           cover_image: string | null
           created_at: string
+          deleted_at: string | null
           icon: string | null
           id: string
           is_favorite: boolean | null
           parent_page_id: string | null
-          position: number | null
+          position: string
+          status: Database["public"]["Enums"]["page_status"]
           title: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          branch_base?: Json | null
+          branch_name?: string | null
+          branch_of?: string | null
           cover_image?: string | null
           created_at?: string
+          deleted_at?: string | null
           icon?: string | null
           id?: string
           is_favorite?: boolean | null
           parent_page_id?: string | null
-          position?: number | null
+          position?: string
+          status?: Database["public"]["Enums"]["page_status"]
           title?: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          branch_base?: Json | null
+          branch_name?: string | null
+          branch_of?: string | null
           cover_image?: string | null
           created_at?: string
+          deleted_at?: string | null
           icon?: string | null
           id?: string
           is_favorite?: boolean | null
           parent_page_id?: string | null
-          position?: number | null
+          position?: string
+          status?: Database["public"]["Enums"]["page_status"]
           title?: string
           updated_at?: string
           user_id?: string
@@ -100,6 +280,13 @@ export type Database = {
             referencedRelation: "pages"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "pages_branch_of_fkey"
+            columns: ["branch_of"]
+            isOneToOne: false
+            referencedRelation: "pages"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -134,7 +321,101 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      apply_page_blocks: {
+        Args: { p_blocks: Json; p_page_id: string }
+        Returns: undefined
+      }
+      block_search_text: {
+        Args: {
+          p_content: string
+          p_type: Database["public"]["Enums"]["block_type"]
+        }
+        Returns: string
+      }
+      create_page_branch: {
+        Args: { p_name: string; p_page_id: string }
+        Returns: Database["public"]["Tables"]["pages"]["Row"]
+      }
+      delete_page: {
+        Args: { p_page_id: string }
+        Returns: string[]
+      }
+      insert_block_at: {
+        Args: {
+          p_after_block_id?: string
+          p_content: string
+          p_page_id: string
+          p_parent_block_id?: string
+          p_position: string
+          p_type: Database["public"]["Enums"]["block_type"]
+        }
+        Returns: Database["public"]["Tables"]["blocks"]["Row"]
+      }
+      merge_page_branch: {
+        Args: { p_blocks: Json; p_branch_id: string; p_main_blocks: Json }
+        Returns: Database["public"]["Tables"]["page_versions"]["Row"]
+      }
+      move_blocks: {
+        Args: {
+          p_block_ids: string[]
+          p_page_id: string
+          p_parent_ids?: (string | null)[]
+          p_positions: string[]
+        }
+        Returns: Database["public"]["Tables"]["blocks"]["Row"][]
+      }
+      move_page: {
+        Args: { p_new_parent_id?: string; p_page_id: string; p_position: string }
+        Returns: Database["public"]["Tables"]["pages"]["Row"]
+      }
+      position_key: {
+        Args: { n: number }
+        Returns: string
+      }
+      reorder_blocks: {
+        Args: { p_block_ids: string[]; p_page_id: string }
+        Returns: Database["public"]["Tables"]["blocks"]["Row"][]
+      }
+      restore_page: {
+        Args: { p_page_id: string; p_position: string }
+        Returns: Database["public"]["Tables"]["pages"]["Row"][]
+      }
+      restore_page_version: {
+        Args: { p_version_id: string }
+        Returns: Database["public"]["Tables"]["page_versions"]["Row"]
+      }
+      search_workspace: {
+        Args: {
+          p_block_types?: Database["public"]["Enums"]["block_type"][]
+          p_from?: string
+          p_limit?: number
+          p_property_id?: string
+          p_property_value?: Json
+          p_query: string
+          p_statuses?: Database["public"]["Enums"]["page_status"][]
+          p_to?: string
+        }
+        Returns: {
+          block_id: string | null
+          block_type: Database["public"]["Enums"]["block_type"] | null
+          page_id: string
+          rank: number
+          snippet: string
+          updated_at: string
+        }[]
+      }
+      snapshot_page: {
+        Args: { p_page_id: string; p_reason?: string; p_restored_from?: string }
+        Returns: Database["public"]["Tables"]["page_versions"]["Row"]
+      }
+      trash_page: {
+        Args: { p_page_id: string }
+        Returns: string[]
+      }
+      trash_retention_days: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
     }
     Enums: {
       block_type:
@@ -148,6 +429,16 @@ export type Database = {
         | "code"
         | "divider"
         | "todo"
+      page_status: "in_progress" | "draft" | "complete" | "archived"
+      property_type:
+        | "text"
+        | "number"
+        | "select"
+        | "multi_select"
+        | "date"
+        | "person"
+        | "url"
+        | "checkbox"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -287,6 +578,17 @@ export const Constants = {
         "divider",
         "todo",
       ],
+      page_status: ["in_progress", "draft", "complete", "archived"],
+      property_type: [
+        "text",
+        "number",
+        "select",
+        "multi_select",
+        "date",
+        "person",
+        "url",
+        "checkbox",
+      ],
     },
   },
 } as const
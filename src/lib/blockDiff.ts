@@ -0,0 +1,81 @@
+import type { BlockType } from '@/hooks/useBlocks';
+import { toPlainText } from '@/lib/richText';
+
+// The parts of a block that make up its content, as stored in snapshots
+export interface BlockSnapshot {
+  id: string;
+  type: BlockType;
+  content: string;
+  checked: boolean;
+  // Missing in snapshots taken before blocks could nest
+  parent_block_id?: string | null;
+}
+
+export type BlockChange =
+  | { kind: 'unchanged'; block: BlockSnapshot }
+  | { kind: 'changed'; before: BlockSnapshot; after: BlockSnapshot }
+  | { kind: 'added'; block: BlockSnapshot }
+  | { kind: 'removed'; block: BlockSnapshot };
+
+export function toSnapshot(block: BlockSnapshot): BlockSnapshot {
+  return {
+    id: block.id,
+    type: block.type,
+    content: block.content,
+    checked: block.checked,
+    parent_block_id: block.parent_block_id ?? null,
+  };
+}
+
+// One-line text for showing a snapshot in a diff
+export function snapshotText(block: BlockSnapshot) {
+  if (block.type === 'divider') return '———';
+  const text = block.type === 'code' ? block.content : toPlainText(block.content);
+  const prefix = block.type === 'todo' ? (block.checked ? '[x] ' : '[ ] ') : '';
+  return prefix + text || 'Empty block';
+}
+
+export function sameContent(a: BlockSnapshot, b: BlockSnapshot) {
+  return (
+    a.type === b.type &&
+    a.content === b.content &&
+    a.checked === b.checked &&
+    (a.parent_block_id ?? null) === (b.parent_block_id ?? null)
+  );
+}
+
+// Block-level diff between two ordered lists, matching blocks by id. Blocks
+// kept in order (the longest common subsequence of ids) are unchanged or
+// changed; the rest show as removed and added, so a moved block appears as both.
+export function diffBlocks(before: BlockSnapshot[], after: BlockSnapshot[]): BlockChange[] {
+  // lengths[i][j] = LCS length of before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i].id === after[j].id
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const changes: BlockChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i].id === after[j].id) {
+      changes.push(
+        sameContent(before[i], after[j])
+          ? { kind: 'unchanged', block: after[j] }
+          : { kind: 'changed', before: before[i], after: after[j] }
+      );
+      i++;
+      j++;
+    } else if (j < after.length && (i === before.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      changes.push({ kind: 'added', block: after[j++] });
+    } else {
+      changes.push({ kind: 'removed', block: before[i++] });
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,195 @@
+import type { Block } from '@/hooks/useBlocks';
+
+// Nested blocks share one page-wide order: a block's children follow it,
+// each followed by its own children. parent_block_id records the nesting.
+
+type TreeBlock = Pick<Block, 'id' | 'type' | 'parent_block_id'>;
+
+export interface BlockNesting {
+  depth: number;
+  // parent_block_id when the parent really encloses the block in page order;
+  // otherwise (e.g. after a merge reordered blocks) the block is top level
+  parentId: string | null;
+  // 1-based position in a run of numbered list items under the same parent
+  listNumber: number;
+}
+
+export interface BlockParentChange {
+  id: string;
+  parent_block_id: string | null;
+}
+
+// Depth, effective parent and list numbering of every block, in one pass
+export function getBlockNesting(blocks: TreeBlock[]): Map<string, BlockNesting> {
+  const nesting = new Map<string, BlockNesting>();
+  // The previous block and its ancestors, outermost first
+  let chain: TreeBlock[] = [];
+  // The latest block seen under each parent ('' for the top level)
+  const lastChild = new Map<string, TreeBlock>();
+
+  blocks.forEach((block) => {
+    const parentIndex = chain.findIndex((b) => b.id === block.parent_block_id);
+    chain = parentIndex === -1 ? [] : chain.slice(0, parentIndex + 1);
+    const parentId = parentIndex === -1 ? null : block.parent_block_id;
+
+    const previous = lastChild.get(parentId ?? '');
+    const listNumber =
+      block.type === 'numbered_list' && previous?.type === 'numbered_list'
+        ? nesting.get(previous.id)!.listNumber + 1
+        : 1;
+
+    nesting.set(block.id, { depth: chain.length, parentId, listNumber });
+    lastChild.set(parentId ?? '', block);
+    chain.push(block);
+  });
+
+  return nesting;
+}
+
+// Ids of a block and everything nested under it, in page order
+export function getSubtreeIds(blocks: TreeBlock[], nesting: Map<string, BlockNesting>, id: string): string[] {
+  const index = blocks.findIndex((b) => b.id === id);
+  if (index === -1) return [];
+  const depth = nesting.get(id)!.depth;
+  const end = blocks.findIndex((b, i) => i > index && nesting.get(b.id)!.depth <= depth);
+  return blocks.slice(index, end === -1 ? undefined : end).map((b) => b.id);
+}
+
+// The given blocks plus everything nested under them, in page order
+export function withDescendants(blocks: TreeBlock[], nesting: Map<string, BlockNesting>, ids: string[]): string[] {
+  const included = new Set(ids.flatMap((id) => getSubtreeIds(blocks, nesting, id)));
+  return blocks.filter((b) => included.has(b.id)).map((b) => b.id);
+}
+
+// The sibling just before a block, if any
+function previousSibling(blocks: TreeBlock[], nesting: Map<string, BlockNesting>, id: string) {
+  const index = blocks.findIndex((b) => b.id === id);
+  const { parentId, depth } = nesting.get(id)!;
+  for (let i = index - 1; i >= 0; i--) {
+    const candidate = nesting.get(blocks[i].id)!;
+    if (candidate.depth < depth) return null;
+    if (candidate.depth === depth && candidate.parentId === parentId) return blocks[i];
+  }
+  return null;
+}
+
+// Where moving blocks one step up or down puts them: past their previous or
+// next sibling along with everything nested under it, or one block on when
+// there is no sibling that way. Null when they can't move further.
+export function siblingMoveTarget(
+  blocks: TreeBlock[],
+  nesting: Map<string, BlockNesting>,
+  ids: string[],
+  direction: -1 | 1
+): number | null {
+  const moving = withDescendants(blocks, nesting, ids);
+  if (moving.length === 0) return null;
+  const first = blocks.findIndex((b) => b.id === moving[0]);
+  const last = blocks.findIndex((b) => b.id === moving[moving.length - 1]);
+
+  let target: number;
+  if (direction === -1) {
+    const sibling = previousSibling(blocks, nesting, moving[0]);
+    target = sibling ? blocks.findIndex((b) => b.id === sibling.id) : first - 1;
+  } else {
+    const next = blocks[last + 1];
+    const isSibling = next && nesting.get(next.id)?.parentId === nesting.get(moving[0])?.parentId;
+    target = isSibling ? last + 1 + getSubtreeIds(blocks, nesting, next.id).length : last + 2;
+  }
+  return target < 0 || target > blocks.length ? null : target;
+}
+
+// Tab: nest a block under its previous sibling. Its children come along
+// unchanged. Null when there is no previous sibling to nest under.
+export function indentBlock(
+  blocks: TreeBlock[],
+  nesting: Map<string, BlockNesting>,
+  id: string
+): BlockParentChange[] | null {
+  const sibling = previousSibling(blocks, nesting, id);
+  return sibling ? [{ id, parent_block_id: sibling.id }] : null;
+}
+
+// Shift+Tab: move a block up a level, next to its parent. Siblings after it
+// become its children, so nothing changes place on the page. Null for a top
+// level block.
+export function outdentBlock(
+  blocks: TreeBlock[],
+  nesting: Map<string, BlockNesting>,
+  id: string
+): BlockParentChange[] | null {
+  const { parentId } = nesting.get(id)!;
+  if (!parentId) return null;
+
+  const subtree = getSubtreeIds(blocks, nesting, parentId);
+  const index = subtree.indexOf(id);
+  const laterSiblings = subtree.slice(index + 1).filter((s) => nesting.get(s)!.parentId === parentId);
+
+  return [
+    { id, parent_block_id: nesting.get(parentId)!.parentId },
+    ...laterSiblings.map((s) => ({ id: s, parent_block_id: id })),
+  ];
+}
+
+// Parent for blocks inserted between `before` and `after` (either may be
+// missing). The preferred parent is kept when it still encloses that spot;
+// otherwise the blocks become siblings of `after`.
+export function parentAtInsertion(
+  nesting: Map<string, BlockNesting>,
+  before: TreeBlock | undefined,
+  after: TreeBlock | undefined,
+  preferred: string | null
+): string | null {
+  // Possible parents, innermost first: `before` and its ancestors, down to
+  // the parent of `after` (which must keep enclosing `after`)
+  const candidates: (string | null)[] = [];
+  let current: string | null = before?.id ?? null;
+  const stop = after ? nesting.get(after.id)?.parentId ?? null : null;
+  while (current !== null && current !== stop) {
+    candidates.push(current);
+    current = nesting.get(current)?.parentId ?? null;
+  }
+  candidates.push(stop);
+
+  return candidates.includes(preferred) ? preferred : stop;
+}
+
+const ROMAN = [
+  [10, 'x'],
+  [9, 'ix'],
+  [5, 'v'],
+  [4, 'iv'],
+  [1, 'i'],
+] as const;
+
+function toRoman(n: number) {
+  let out = '';
+  ROMAN.forEach(([value, numeral]) => {
+    while (n >= value) {
+      out += numeral;
+      n -= value;
+    }
+  });
+  return out;
+}
+
+function toLetters(n: number) {
+  let out = '';
+  while (n > 0) {
+    out = String.fromCharCode(97 + ((n - 1) % 26)) + out;
+    n = Math.floor((n - 1) / 26);
+  }
+  return out;
+}
+
+// Numbered list markers cycle 1. → a. → i. with each level of nesting
+export function listMarker(listNumber: number, depth: number) {
+  switch (depth % 3) {
+    case 1:
+      return `${toLetters(listNumber)}.`;
+    case 2:
+      return `${toRoman(listNumber)}.`;
+    default:
+      return `${listNumber}.`;
+  }
+}
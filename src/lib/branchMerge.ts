@@ -0,0 +1,90 @@
+import { BlockSnapshot, sameContent, toSnapshot } from './blockDiff';
+
+// A block on a branch page. Copies of main blocks keep their source's id.
+export interface BranchBlock extends BlockSnapshot {
+  source_block_id: string | null;
+}
+
+// A block changed differently on main and on the branch since the branch was
+// created. A null side deleted the block.
+export interface MergeConflict {
+  id: string;
+  base: BlockSnapshot;
+  main: BlockSnapshot | null;
+  branch: BlockSnapshot | null;
+}
+
+export type ConflictResolution = 'main' | 'branch';
+
+// Branch blocks identified the way main knows them, for diffing against main.
+// Parents are branch blocks too, so they are mapped the same way.
+export function toMainIds(blocks: BranchBlock[]): BlockSnapshot[] {
+  const mainIds = new Map(blocks.map((b) => [b.id, b.source_block_id ?? b.id]));
+  return blocks.map((b) => ({
+    ...toSnapshot(b),
+    id: mainIds.get(b.id)!,
+    parent_block_id: b.parent_block_id ? mainIds.get(b.parent_block_id) ?? null : null,
+  }));
+}
+
+// Three-way merge of a branch into main, block by block. A block changed on
+// one side only takes that side; changed on both (unless identically) it is a
+// conflict, settled by `resolutions` and defaulting to main. The result
+// follows the branch's order, with blocks only main has placed after their
+// nearest preceding main block. Blocks new on the branch keep their branch id.
+export function mergeBranch(
+  base: BlockSnapshot[],
+  main: BlockSnapshot[],
+  branch: BranchBlock[],
+  resolutions: Record<string, ConflictResolution> = {}
+): { blocks: BlockSnapshot[]; conflicts: MergeConflict[] } {
+  const branchBlocks = toMainIds(branch);
+  const baseById = new Map(base.map((b) => [b.id, b]));
+  const mainById = new Map(main.map((b) => [b.id, b]));
+  const branchById = new Map(branchBlocks.map((b) => [b.id, b]));
+
+  const changed = (original: BlockSnapshot | undefined, block: BlockSnapshot | null) =>
+    original ? !block || !sameContent(original, block) : !!block;
+
+  const conflicts: MergeConflict[] = [];
+  // Merged content per block id; null when the block is deleted
+  const resolved = new Map<string, BlockSnapshot | null>();
+
+  new Set([...baseById.keys(), ...mainById.keys(), ...branchById.keys()]).forEach((id) => {
+    const original = baseById.get(id);
+    const ours = mainById.get(id) ?? null;
+    const theirs = branchById.get(id) ?? null;
+
+    if (!changed(original, theirs)) {
+      resolved.set(id, ours);
+    } else if (!changed(original, ours)) {
+      resolved.set(id, theirs);
+    } else if (ours && theirs ? sameContent(ours, theirs) : ours === theirs) {
+      resolved.set(id, ours);
+    } else {
+      if (original) {
+        conflicts.push({ id, base: original, main: ours, branch: theirs });
+      }
+      resolved.set(id, resolutions[id] === 'branch' ? theirs : ours);
+    }
+  });
+
+  const blocks: BlockSnapshot[] = [];
+  branchBlocks.forEach((b) => {
+    const block = resolved.get(b.id);
+    if (block) blocks.push(block);
+  });
+
+  main.forEach((b, index) => {
+    const block = resolved.get(b.id);
+    if (!block || blocks.some((m) => m.id === b.id)) return;
+    const previous = main
+      .slice(0, index)
+      .reverse()
+      .find((p) => blocks.some((m) => m.id === p.id));
+    const at = previous ? blocks.findIndex((m) => m.id === previous.id) + 1 : 0;
+    blocks.splice(at, 0, block);
+  });
+
+  return { blocks, conflicts };
+}
@@ -0,0 +1,71 @@
+// Caret helpers for contentEditable blocks. Offsets are measured in
+// characters of the element's textContent.
+
+export function getCaretOffset(element: HTMLElement): number | null {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+
+  const range = selection.getRangeAt(0);
+  if (!element.contains(range.endContainer)) return null;
+
+  const preRange = range.cloneRange();
+  preRange.selectNodeContents(element);
+  preRange.setEnd(range.endContainer, range.endOffset);
+  return preRange.toString().length;
+}
+
+// Find the text node and local offset for a character offset
+function locateOffset(element: HTMLElement, offset: number): { node: Node; offset: number } {
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  let remaining = offset;
+  let node = walker.nextNode();
+  let last: Node | null = null;
+
+  while (node) {
+    const length = node.textContent?.length ?? 0;
+    if (remaining <= length) {
+      return { node, offset: remaining };
+    }
+    remaining -= length;
+    last = node;
+    node = walker.nextNode();
+  }
+
+  // Offset past the end (or no text nodes): clamp to the end
+  return last
+    ? { node: last, offset: last.textContent?.length ?? 0 }
+    : { node: element, offset: element.childNodes.length };
+}
+
+export function getRangeAtOffsets(element: HTMLElement, start: number, end: number): Range {
+  const range = document.createRange();
+  const from = locateOffset(element, start);
+  const to = locateOffset(element, end);
+  range.setStart(from.node, from.offset);
+  range.setEnd(to.node, to.offset);
+  return range;
+}
+
+export function setCaretOffset(element: HTMLElement, offset: number) {
+  const selection = window.getSelection();
+  if (!selection) return;
+
+  const range = getRangeAtOffsets(element, offset, offset);
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
+
+export function getCaretRect(): DOMRect | null {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+
+  const range = selection.getRangeAt(0).cloneRange();
+  range.collapse(false);
+  const rect = range.getClientRects()[0];
+  if (rect) return rect;
+
+  // Collapsed ranges in empty elements have no client rects
+  const container = range.startContainer;
+  const element = container instanceof HTMLElement ? container : container.parentElement;
+  return element?.getBoundingClientRect() ?? null;
+}
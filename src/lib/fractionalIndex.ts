@@ -0,0 +1,217 @@
+// Fractional indexing for ordered rows (blocks.position, pages.position).
+//
+// Keys are base-62 strings that sort lexicographically (byte order, which is
+// why the columns use COLLATE "C"). A key can always be generated between
+// any two neighbours, so inserting or moving an item writes a single row.
+// Keys are an integer part, whose head character encodes its length
+// ('a0'..'az', 'b00'..'bzz', ...), followed by an optional fraction.
+// The integer encoding matches public.position_key() in the migrations.
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const INTEGER_ZERO = 'a0';
+const SMALLEST_INTEGER = 'A00000000000000000000000000';
+
+// Keys longer than this are rewritten by a rebalance (reorder_blocks)
+export const MAX_KEY_LENGTH = 24;
+
+function midpoint(a: string, b: string | null): string {
+  if (b !== null && a >= b) {
+    throw new Error(`Invalid key range: ${a} >= ${b}`);
+  }
+  if (a.slice(-1) === '0' || (b && b.slice(-1) === '0')) {
+    throw new Error('Fractional part has a trailing zero');
+  }
+
+  if (b) {
+    // Shared prefix: recurse on the remainder
+    let n = 0;
+    while ((a[n] || '0') === b[n]) n++;
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round(0.5 * (digitA + digitB))];
+  }
+
+  // Digits are consecutive
+  if (b && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+function getIntegerLength(head: string): number {
+  if (head >= 'a' && head <= 'z') return head.charCodeAt(0) - 'a'.charCodeAt(0) + 2;
+  if (head >= 'A' && head <= 'Z') return 'Z'.charCodeAt(0) - head.charCodeAt(0) + 2;
+  throw new Error(`Invalid key head: ${head}`);
+}
+
+function getIntegerPart(key: string): string {
+  const length = getIntegerLength(key[0]);
+  if (length > key.length) {
+    throw new Error(`Invalid key: ${key}`);
+  }
+  return key.slice(0, length);
+}
+
+function validateKey(key: string) {
+  if (key === SMALLEST_INTEGER) {
+    throw new Error(`Invalid key: ${key}`);
+  }
+  const integer = getIntegerPart(key);
+  if (key.slice(integer.length).slice(-1) === '0') {
+    throw new Error(`Invalid key: ${key}`);
+  }
+}
+
+function incrementInteger(x: string): string | null {
+  const [head, ...digits] = x.split('');
+  let carry = true;
+
+  for (let i = digits.length - 1; carry && i >= 0; i--) {
+    const d = DIGITS.indexOf(digits[i]) + 1;
+    if (d === DIGITS.length) {
+      digits[i] = '0';
+    } else {
+      digits[i] = DIGITS[d];
+      carry = false;
+    }
+  }
+
+  if (carry) {
+    if (head === 'Z') return 'a0';
+    if (head === 'z') return null;
+    const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+    if (nextHead > 'a') {
+      digits.push('0');
+    } else {
+      digits.pop();
+    }
+    return nextHead + digits.join('');
+  }
+
+  return head + digits.join('');
+}
+
+function decrementInteger(x: string): string | null {
+  const [head, ...digits] = x.split('');
+  let borrow = true;
+
+  for (let i = digits.length - 1; borrow && i >= 0; i--) {
+    const d = DIGITS.indexOf(digits[i]) - 1;
+    if (d === -1) {
+      digits[i] = DIGITS.slice(-1);
+    } else {
+      digits[i] = DIGITS[d];
+      borrow = false;
+    }
+  }
+
+  if (borrow) {
+    if (head === 'a') return 'Z' + DIGITS.slice(-1);
+    if (head === 'A') return null;
+    const nextHead = String.fromCharCode(head.charCodeAt(0) - 1);
+    if (nextHead < 'Z') {
+      digits.push(DIGITS.slice(-1));
+    } else {
+      digits.pop();
+    }
+    return nextHead + digits.join('');
+  }
+
+  return head + digits.join('');
+}
+
+// Generate a key strictly between a and b (null means unbounded)
+export function generateKeyBetween(a: string | null, b: string | null): string {
+  if (a !== null) validateKey(a);
+  if (b !== null) validateKey(b);
+  if (a !== null && b !== null && a >= b) {
+    throw new Error(`Invalid key range: ${a} >= ${b}`);
+  }
+
+  if (a === null) {
+    if (b === null) return INTEGER_ZERO;
+
+    const integerB = getIntegerPart(b);
+    const fractionB = b.slice(integerB.length);
+    if (integerB === SMALLEST_INTEGER) {
+      return integerB + midpoint('', fractionB);
+    }
+    if (integerB < b) return integerB;
+
+    const decremented = decrementInteger(integerB);
+    if (decremented === null) {
+      throw new Error('Cannot generate a key before the smallest key');
+    }
+    return decremented;
+  }
+
+  if (b === null) {
+    const integerA = getIntegerPart(a);
+    const fractionA = a.slice(integerA.length);
+    const incremented = incrementInteger(integerA);
+    return incremented === null ? integerA + midpoint(fractionA, null) : incremented;
+  }
+
+  const integerA = getIntegerPart(a);
+  const fractionA = a.slice(integerA.length);
+  const integerB = getIntegerPart(b);
+  const fractionB = b.slice(integerB.length);
+
+  if (integerA === integerB) {
+    return integerA + midpoint(fractionA, fractionB);
+  }
+
+  const incremented = incrementInteger(integerA);
+  if (incremented === null) {
+    throw new Error('Cannot generate a key after the largest key');
+  }
+  if (incremented < b) return incremented;
+  return integerA + midpoint(fractionA, null);
+}
+
+// Generate n ordered keys between a and b, spread out to keep them short
+export function generateNKeysBetween(a: string | null, b: string | null, n: number): string[] {
+  if (n === 0) return [];
+  if (n === 1) return [generateKeyBetween(a, b)];
+
+  if (b === null) {
+    let key = generateKeyBetween(a, b);
+    const keys = [key];
+    for (let i = 0; i < n - 1; i++) {
+      key = generateKeyBetween(key, b);
+      keys.push(key);
+    }
+    return keys;
+  }
+
+  if (a === null) {
+    let key = generateKeyBetween(a, b);
+    const keys = [key];
+    for (let i = 0; i < n - 1; i++) {
+      key = generateKeyBetween(a, key);
+      keys.push(key);
+    }
+    return keys.reverse();
+  }
+
+  const mid = Math.floor(n / 2);
+  const key = generateKeyBetween(a, b);
+  return [...generateNKeysBetween(a, key, mid), key, ...generateNKeysBetween(key, b, n - mid - 1)];
+}
+
+export function comparePositions(a: { position: string }, b: { position: string }): number {
+  if (a.position < b.position) return -1;
+  if (a.position > b.position) return 1;
+  return 0;
+}
+
+export function needsRebalance(key: string): boolean {
+  return key.length > MAX_KEY_LENGTH;
+}
@@ -0,0 +1,124 @@
+// Pages as a graph: parent/child edges from parent_page_id plus edges for
+// page references in block content, laid out with a simple force simulation.
+
+export interface PageLink {
+  source: string;
+  target: string;
+}
+
+export interface GraphEdge extends PageLink {
+  kind: 'parent' | 'link';
+}
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+}
+
+// Preferred distance between linked nodes, in layout units
+const EDGE_LENGTH = 80;
+// Caps the O(n²) simulation on large workspaces
+const MAX_LAYOUT_WORK = 2_000_000;
+// Pull towards the centre, which keeps unlinked pages near the rest
+const GRAVITY = 0.2;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+function edgeKey(a: string, b: string) {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+// Edges between the given pages. A link between a parent and its child is
+// only drawn once, as the parent edge, as is a pair of pages linking each other.
+export function buildPageEdges(
+  pages: { id: string; parent_page_id: string | null }[],
+  links: PageLink[]
+): GraphEdge[] {
+  const ids = new Set(pages.map((p) => p.id));
+  const seen = new Set<string>();
+  const edges: GraphEdge[] = [];
+
+  const add = (source: string, target: string, kind: GraphEdge['kind']) => {
+    const key = edgeKey(source, target);
+    if (source === target || !ids.has(source) || !ids.has(target) || seen.has(key)) return;
+    seen.add(key);
+    edges.push({ source, target, kind });
+  };
+
+  pages.forEach((p) => p.parent_page_id && add(p.parent_page_id, p.id, 'parent'));
+  links.forEach((l) => add(l.source, l.target, 'link'));
+  return edges;
+}
+
+// Pages within `depth` edges of the focused page, in either direction
+export function neighbourhood(edges: GraphEdge[], focusId: string, depth: number): Set<string> {
+  const adjacent = new Map<string, string[]>();
+  edges.forEach(({ source, target }) => {
+    adjacent.set(source, [...(adjacent.get(source) ?? []), target]);
+    adjacent.set(target, [...(adjacent.get(target) ?? []), source]);
+  });
+
+  const reached = new Set([focusId]);
+  let frontier = [focusId];
+  for (let step = 0; step < depth && frontier.length > 0; step++) {
+    frontier = frontier.flatMap((id) => (adjacent.get(id) ?? []).filter((next) => !reached.has(next)));
+    frontier.forEach((id) => reached.add(id));
+  }
+  return reached;
+}
+
+// Fruchterman-Reingold layout. Nodes start on a spiral in the given order, so
+// the same graph always gets the same layout.
+export function layoutGraph(ids: string[], edges: PageLink[]): Map<string, GraphPoint> {
+  const count = ids.length;
+  const index = new Map(ids.map((id, i) => [id, i]));
+  const xs = ids.map((_, i) => Math.sqrt(i + 0.5) * EDGE_LENGTH * 0.6 * Math.cos(i * GOLDEN_ANGLE));
+  const ys = ids.map((_, i) => Math.sqrt(i + 0.5) * EDGE_LENGTH * 0.6 * Math.sin(i * GOLDEN_ANGLE));
+  const springs = edges
+    .map(({ source, target }) => [index.get(source), index.get(target)])
+    .filter((pair): pair is [number, number] => pair[0] !== undefined && pair[1] !== undefined);
+
+  const iterations = count > 1 ? Math.max(30, Math.min(300, Math.floor(MAX_LAYOUT_WORK / (count * count)))) : 0;
+  let temperature = EDGE_LENGTH * 2;
+  const cooling = temperature / (iterations + 1);
+
+  for (let step = 0; step < iterations; step++) {
+    const dx = new Array<number>(count).fill(0);
+    const dy = new Array<number>(count).fill(0);
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const ddx = xs[i] - xs[j];
+        const ddy = ys[i] - ys[j];
+        const distance = Math.max(Math.hypot(ddx, ddy), 0.01);
+        const force = (EDGE_LENGTH * EDGE_LENGTH) / distance;
+        dx[i] += (ddx / distance) * force;
+        dy[i] += (ddy / distance) * force;
+        dx[j] -= (ddx / distance) * force;
+        dy[j] -= (ddy / distance) * force;
+      }
+    }
+
+    springs.forEach(([a, b]) => {
+      const ddx = xs[a] - xs[b];
+      const ddy = ys[a] - ys[b];
+      const distance = Math.max(Math.hypot(ddx, ddy), 0.01);
+      const force = (distance * distance) / EDGE_LENGTH;
+      dx[a] -= (ddx / distance) * force;
+      dy[a] -= (ddy / distance) * force;
+      dx[b] += (ddx / distance) * force;
+      dy[b] += (ddy / distance) * force;
+    });
+
+    for (let i = 0; i < count; i++) {
+      dx[i] -= xs[i] * GRAVITY;
+      dy[i] -= ys[i] * GRAVITY;
+      const length = Math.max(Math.hypot(dx[i], dy[i]), 0.01);
+      const move = Math.min(length, temperature);
+      xs[i] += (dx[i] / length) * move;
+      ys[i] += (dy[i] / length) * move;
+    }
+    temperature -= cooling;
+  }
+
+  return new Map(ids.map((id, i) => [id, { x: xs[i], y: ys[i] }]));
+}
@@ -0,0 +1,110 @@
+import { InlineSpan, PageRefResolver, parseInline, serializeSpans } from '@/lib/richText';
+
+// Characters of context kept on each side of a match in a snippet
+const SNIPPET_CONTEXT = 60;
+
+// A match in a block's plain text with the text around it
+export interface LinkSnippet {
+  before: string;
+  match: string;
+  after: string;
+}
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+// LIKE pattern for content that may reference the page; parse to be sure
+export function pageRefPattern(pageId: string) {
+  return `%[[${pageId}|%`;
+}
+
+export function escapeLikePattern(text: string) {
+  return text.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+// Ids of the pages a block's content references
+export function extractPageRefs(content: string): string[] {
+  const ids = parseInline(content).flatMap((span) => (span.pageRef ? [span.pageRef] : []));
+  return [...new Set(ids)];
+}
+
+// Page references show their target's current title
+function resolveSpans(spans: InlineSpan[], resolvePage?: PageRefResolver): InlineSpan[] {
+  return spans.map((span) => {
+    const page = span.pageRef && resolvePage ? resolvePage(span.pageRef) : null;
+    return page ? { ...span, text: page.title || 'Untitled' } : span;
+  });
+}
+
+function toSnippet(text: string, start: number, end: number): LinkSnippet {
+  const from = Math.max(0, start - SNIPPET_CONTEXT);
+  const to = Math.min(text.length, end + SNIPPET_CONTEXT);
+  return {
+    before: (from > 0 ? '…' : '') + text.slice(from, start).replace(/\s+/g, ' '),
+    match: text.slice(start, end),
+    after: text.slice(end, to).replace(/\s+/g, ' ') + (to < text.length ? '…' : ''),
+  };
+}
+
+// The first reference to pageId in content, or null when there is none
+export function findPageLink(content: string, pageId: string, resolvePage?: PageRefResolver): LinkSnippet | null {
+  const spans = resolveSpans(parseInline(content), resolvePage);
+  let offset = 0;
+  for (const span of spans) {
+    if (span.pageRef === pageId) {
+      return toSnippet(spans.map((s) => s.text).join(''), offset, offset + span.text.length);
+    }
+    offset += span.text.length;
+  }
+  return null;
+}
+
+// Where title appears as a whole word in plain text that could become a
+// reference: not inside code, a link or another reference
+function findMentionIn(spans: InlineSpan[], title: string) {
+  const needle = title.toLowerCase();
+  if (!needle.trim()) return null;
+
+  for (let index = 0; index < spans.length; index++) {
+    const span = spans[index];
+    if (span.pageRef || span.href || span.code) continue;
+
+    const text = span.text.toLowerCase();
+    let at = text.indexOf(needle);
+    while (at !== -1) {
+      const end = at + needle.length;
+      const boundedBefore = at === 0 || !WORD_CHAR.test(text[at - 1]);
+      const boundedAfter = end === text.length || !WORD_CHAR.test(text[end]);
+      if (boundedBefore && boundedAfter) return { index, start: at, end };
+      at = text.indexOf(needle, at + 1);
+    }
+  }
+  return null;
+}
+
+// The first unlinked mention of title in content, or null when there is none
+export function findMention(content: string, title: string, resolvePage?: PageRefResolver): LinkSnippet | null {
+  const spans = resolveSpans(parseInline(content), resolvePage);
+  const mention = findMentionIn(spans, title);
+  if (!mention) return null;
+
+  const offset = spans.slice(0, mention.index).reduce((sum, s) => sum + s.text.length, 0);
+  return toSnippet(spans.map((s) => s.text).join(''), offset + mention.start, offset + mention.end);
+}
+
+// Content with its first unlinked mention of title turned into a reference
+// to pageId, or null when there is nothing to link
+export function linkMention(content: string, pageId: string, title: string): string | null {
+  const spans = parseInline(content);
+  const mention = findMentionIn(spans, title);
+  if (!mention) return null;
+
+  const { index, start, end } = mention;
+  const span = spans[index];
+  return serializeSpans([
+    ...spans.slice(0, index),
+    { ...span, text: span.text.slice(0, start) },
+    { text: title, pageRef: pageId },
+    { ...span, text: span.text.slice(end) },
+    ...spans.slice(index + 1),
+  ]);
+}
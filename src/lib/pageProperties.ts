@@ -0,0 +1,82 @@
+import type { PageProperty, PropertyValue } from '@/hooks/usePageProperties';
+
+// Pages with a value for the property; with `value` set, only values that
+// contain it. Mirrors the property filter of search_workspace, which uses
+// JSONB containment.
+export interface PropertyFilter {
+  propertyId: string;
+  value: PropertyValue | null;
+}
+
+export function containsValue(value: PropertyValue, filter: PropertyValue) {
+  if (Array.isArray(value) && Array.isArray(filter)) {
+    return filter.every((item) => value.includes(item));
+  }
+  return value === filter;
+}
+
+export function matchesPropertyFilter(values: Record<string, PropertyValue>, filter: PropertyFilter) {
+  const value = values[filter.propertyId];
+  if (value === undefined) return false;
+  return filter.value === null || containsValue(value, filter.value);
+}
+
+// The filters offered for a property schema: "is set" for every property,
+// plus one per option of a select, and "checked" for a checkbox
+export function propertyFilterChoices(properties: PageProperty[]): { label: string; filter: PropertyFilter }[] {
+  return properties.flatMap((property) => {
+    const choices = [{ label: `${property.name} is set`, filter: { propertyId: property.id, value: null } }];
+    if (property.type === 'select' || property.type === 'multi_select') {
+      property.options.forEach((option) =>
+        choices.push({
+          label: `${property.name}: ${option}`,
+          filter: { propertyId: property.id, value: property.type === 'select' ? option : [option] },
+        })
+      );
+    } else if (property.type === 'checkbox') {
+      choices[0] = { label: `${property.name} is checked`, filter: { propertyId: property.id, value: true } };
+    }
+    return choices;
+  });
+}
+
+// Filters round-trip through a string for URLs and select values
+export function encodePropertyFilter(filter: PropertyFilter) {
+  return filter.value === null ? filter.propertyId : `${filter.propertyId}:${JSON.stringify(filter.value)}`;
+}
+
+export function decodePropertyFilter(encoded: string): PropertyFilter | null {
+  const separator = encoded.indexOf(':');
+  if (separator === -1) return { propertyId: encoded, value: null };
+  try {
+    return { propertyId: encoded.slice(0, separator), value: JSON.parse(encoded.slice(separator + 1)) };
+  } catch {
+    return null;
+  }
+}
+
+// Orders values of one property; unset values go last either way
+export function comparePropertyValues(
+  property: PageProperty,
+  a: PropertyValue | undefined,
+  b: PropertyValue | undefined,
+  direction: 'asc' | 'desc' = 'asc'
+) {
+  if (a === undefined || b === undefined) {
+    return a === b ? 0 : a === undefined ? 1 : -1;
+  }
+
+  let order: number;
+  if (property.type === 'number') {
+    order = Number(a) - Number(b);
+  } else if (property.type === 'checkbox') {
+    order = Number(a) - Number(b);
+  } else if (property.type === 'select') {
+    // Options sort in the order they were defined
+    order = property.options.indexOf(String(a)) - property.options.indexOf(String(b));
+  } else {
+    const text = (value: PropertyValue) => (Array.isArray(value) ? value.join(', ') : String(value));
+    order = text(a).localeCompare(text(b));
+  }
+  return direction === 'asc' ? order : -order;
+}
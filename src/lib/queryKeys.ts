@@ -0,0 +1,19 @@
+import type { SearchFilters } from '@/hooks/useSearch';
+
+// Query keys for the shared react-query cache
+export const queryKeys = {
+  blocks: (pageId: string | null) => ['blocks', pageId] as const,
+  pages: (userId: string | null) => ['pages', userId] as const,
+  pageVersions: (pageId: string | null) => ['page-versions', pageId] as const,
+  pageBranches: (pageId: string | null) => ['page-branches', pageId] as const,
+  pageProperties: (userId: string | null) => ['page-properties', userId] as const,
+  pageTags: (userId: string | null) => ['page-tags', userId] as const,
+  // Prefix of every pageTags key, for callers that don't know the user
+  allPageTags: ['page-tags'] as const,
+  // Blocks on other pages that link to or mention a page
+  backlinks: (pageId: string | null, title: string) => ['backlinks', pageId, title] as const,
+  // Every page-to-page reference in the workspace
+  pageLinks: (userId: string | null) => ['page-links', userId] as const,
+  trashRetentionDays: ['trash-retention-days'] as const,
+  search: (query: string, filters: SearchFilters) => ['search', query, filters] as const,
+};
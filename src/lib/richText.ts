@@ -0,0 +1,412 @@
+// Inline rich text for block content.
+//
+// Content is stored as a small, safe subset of inline markdown:
+//   **bold**  *italic*  ~~strike~~  `code`  [text](url)
+// plus page references, [[page-id|title]], where the title is only a fallback
+// for when the page can't be found; references render with the page's
+// current title.
+// Literal special characters in text are backslash-escaped, so any content
+// produced by serializeSpans parses back to the same spans. Rendering only
+// ever emits escaped text inside a fixed set of tags, and links are limited
+// to SAFE_URL protocols.
+
+export interface InlineSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  href?: string;
+  // Id of the referenced page. Reference spans carry no marks, and their text
+  // is the fallback title.
+  pageRef?: string;
+}
+
+// What a page reference shows; null when the page is gone
+export type PageRefResolver = (pageId: string) => { title: string; icon: string | null } | null;
+
+export type InlineMark = 'bold' | 'italic' | 'strike' | 'code';
+
+type MarkContext = Omit<InlineSpan, 'text'>;
+
+const SAFE_URL = /^(https?:|mailto:|\/|#)/i;
+
+const PAGE_REF = /\[\[([\w-]+)\|((?:\\.|[^\\\]])*)\]\]/y;
+
+const DELIMITERS: [string, 'bold' | 'strike' | 'italic'][] = [
+  ['**', 'bold'],
+  ['~~', 'strike'],
+  ['*', 'italic'],
+];
+
+export function isSafeUrl(url: string): boolean {
+  return SAFE_URL.test(url.trim());
+}
+
+// Escape plain text as it's stored in content
+export function escapeText(text: string): string {
+  return text.replace(/[\\*~`[\]]/g, '\\$&');
+}
+
+function escapeCode(text: string): string {
+  return text.replace(/[\\`]/g, '\\$&');
+}
+
+function escapeUrl(url: string): string {
+  return url.replace(/[%()\s]/g, (c) => '%' + c.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0'));
+}
+
+function decodeUrl(url: string): string {
+  try {
+    return decodeURIComponent(url);
+  } catch {
+    return url;
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function sameMarks(a: MarkContext, b: MarkContext): boolean {
+  return (
+    !!a.bold === !!b.bold &&
+    !!a.italic === !!b.italic &&
+    !!a.strike === !!b.strike &&
+    !!a.code === !!b.code &&
+    a.href === b.href
+  );
+}
+
+// Merge adjacent spans with identical marks and drop empty ones. Page
+// references are never merged.
+export function normalizeSpans(spans: InlineSpan[]): InlineSpan[] {
+  const result: InlineSpan[] = [];
+  for (const span of spans) {
+    if (!span.text) continue;
+    const last = result[result.length - 1];
+    if (last && !last.pageRef && !span.pageRef && sameMarks(last, span)) {
+      last.text += span.text;
+    } else {
+      result.push({ ...span });
+    }
+  }
+  return result;
+}
+
+interface ParseResult {
+  spans: InlineSpan[];
+  pos: number;
+}
+
+// Returns null when a closer was expected but never found, so the caller
+// can fall back to treating the opener as literal text.
+function parseSequence(src: string, start: number, ctx: MarkContext, closer: string | null): ParseResult | null {
+  const spans: InlineSpan[] = [];
+  let buffer = '';
+  let pos = start;
+
+  const flush = () => {
+    if (buffer) {
+      spans.push({ ...ctx, text: buffer });
+      buffer = '';
+    }
+  };
+
+  outer: while (pos < src.length) {
+    if (closer && src.startsWith(closer, pos)) {
+      flush();
+      return { spans, pos: pos + closer.length };
+    }
+
+    const ch = src[pos];
+
+    if (ch === '\\' && pos + 1 < src.length) {
+      buffer += src[pos + 1];
+      pos += 2;
+      continue;
+    }
+
+    if (ch === '`' && !ctx.code) {
+      let code = '';
+      let j = pos + 1;
+      while (j < src.length && src[j] !== '`') {
+        if (src[j] === '\\' && j + 1 < src.length) j++;
+        code += src[j];
+        j++;
+      }
+      if (j < src.length && code) {
+        flush();
+        spans.push({ ...ctx, code: true, text: code });
+        pos = j + 1;
+        continue;
+      }
+    }
+
+    if (src.startsWith('[[', pos)) {
+      PAGE_REF.lastIndex = pos;
+      const ref = PAGE_REF.exec(src);
+      if (ref) {
+        flush();
+        spans.push({ text: ref[2].replace(/\\(.)/g, '$1') || 'Untitled', pageRef: ref[1] });
+        pos = PAGE_REF.lastIndex;
+        continue;
+      }
+    }
+
+    for (const [delimiter, mark] of DELIMITERS) {
+      if (!ctx[mark] && src.startsWith(delimiter, pos)) {
+        const inner = parseSequence(src, pos + delimiter.length, { ...ctx, [mark]: true }, delimiter);
+        if (inner && inner.spans.length > 0) {
+          flush();
+          spans.push(...inner.spans);
+          pos = inner.pos;
+          continue outer;
+        }
+      }
+    }
+
+    if (ch === '[' && !ctx.href) {
+      const label = parseSequence(src, pos + 1, ctx, ']');
+      if (label && src[label.pos] === '(') {
+        const end = src.indexOf(')', label.pos);
+        if (end !== -1) {
+          const href = decodeUrl(src.slice(label.pos + 1, end));
+          flush();
+          spans.push(...label.spans.map((s) => (isSafeUrl(href) ? { ...s, href } : s)));
+          pos = end + 1;
+          continue;
+        }
+      }
+    }
+
+    buffer += ch;
+    pos++;
+  }
+
+  if (closer) return null;
+  flush();
+  return { spans, pos };
+}
+
+export function parseInline(source: string): InlineSpan[] {
+  return normalizeSpans(parseSequence(source, 0, {}, null)?.spans ?? []);
+}
+
+function serializeSpan(span: InlineSpan): string {
+  let out = span.code ? '`' + escapeCode(span.text) + '`' : escapeText(span.text);
+  if (span.italic) out = `*${out}*`;
+  if (span.strike) out = `~~${out}~~`;
+  if (span.bold) out = `**${out}**`;
+  return out;
+}
+
+export function serializeSpans(spans: InlineSpan[]): string {
+  const normalized = normalizeSpans(spans);
+  let out = '';
+  let i = 0;
+
+  while (i < normalized.length) {
+    const { href, pageRef } = normalized[i];
+    if (pageRef) {
+      out += `[[${pageRef}|${escapeText(normalized[i].text)}]]`;
+      i++;
+      continue;
+    }
+    if (!href) {
+      out += serializeSpan(normalized[i]);
+      i++;
+      continue;
+    }
+    // Consecutive spans sharing a link are grouped into one [label](url)
+    let label = '';
+    while (i < normalized.length && normalized[i].href === href) {
+      label += serializeSpan(normalized[i]);
+      i++;
+    }
+    out += `[${label}](${escapeUrl(href)})`;
+  }
+
+  return out;
+}
+
+// A page reference is an uneditable unit in the editor. Its icon is drawn
+// from data-icon in CSS so the element's text stays just the title.
+function pageRefToHtml(pageId: string, fallback: string, resolvePage?: PageRefResolver): string {
+  const page = resolvePage ? resolvePage(pageId) : undefined;
+  const title = page ? page.title || 'Untitled' : fallback;
+  const attrs = [
+    `data-page-ref="${escapeHtml(pageId)}"`,
+    `data-page-title="${escapeHtml(title)}"`,
+    page?.icon ? `data-icon="${escapeHtml(page.icon)}"` : '',
+    page === null ? 'data-broken title="This page was deleted"' : '',
+  ];
+  return `<span class="page-ref" contenteditable="false" ${attrs.filter(Boolean).join(' ')}>${escapeHtml(title)}</span>`;
+}
+
+export function spansToHtml(spans: InlineSpan[], resolvePage?: PageRefResolver): string {
+  return spans
+    .map((span) => {
+      if (span.pageRef) return pageRefToHtml(span.pageRef, span.text, resolvePage);
+      let html = escapeHtml(span.text).replace(/\n/g, '<br>');
+      if (span.code) html = `<code>${html}</code>`;
+      if (span.italic) html = `<em>${html}</em>`;
+      if (span.strike) html = `<s>${html}</s>`;
+      if (span.bold) html = `<strong>${html}</strong>`;
+      if (span.href && isSafeUrl(span.href)) {
+        html = `<a href="${escapeHtml(span.href)}" target="_blank" rel="noopener noreferrer">${html}</a>`;
+      }
+      return html;
+    })
+    .join('');
+}
+
+export function renderInline(source: string, resolvePage?: PageRefResolver): string {
+  return spansToHtml(parseInline(source), resolvePage);
+}
+
+// Plain text of stored content, for previews, search and comparisons
+export function toPlainText(source: string): string {
+  return parseInline(source).map((s) => s.text).join('');
+}
+
+// Replace characters start..end of the plain text, keeping the marks around
+// them. The new text takes the marks of the first character it replaces.
+export function replacePlainText(source: string, start: number, end: number, replacement: string): string {
+  const spans = parseInline(source);
+  if (spans.length === 0) return serializeSpans([{ text: replacement }]);
+
+  let offset = 0;
+  let inserted = false;
+  const result = spans.map((span, index) => {
+    const spanStart = offset;
+    offset += span.text.length;
+    const clamp = (n: number) => Math.min(Math.max(n - spanStart, 0), span.text.length);
+
+    const insertHere = !inserted && (start < offset || index === spans.length - 1);
+    if (insertHere) inserted = true;
+    return {
+      ...span,
+      text: span.text.slice(0, clamp(start)) + (insertHere ? replacement : '') + span.text.slice(clamp(end)),
+    };
+  });
+
+  return serializeSpans(normalizeSpans(result));
+}
+
+// Read the marks back out of a contentEditable element. Unknown elements
+// contribute only their text, so pasted or injected markup is dropped.
+export function domToSpans(root: HTMLElement): InlineSpan[] {
+  const spans: InlineSpan[] = [];
+
+  const walk = (node: Node, ctx: MarkContext) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      spans.push({ ...ctx, text: node.textContent || '' });
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+
+    const tag = node.tagName;
+    if (node.dataset.pageRef) {
+      spans.push({ text: node.dataset.pageTitle || node.textContent || '', pageRef: node.dataset.pageRef });
+      return;
+    }
+    if (tag === 'BR') {
+      // Browsers keep a trailing <br> in otherwise empty editables
+      if (node !== root.lastChild) spans.push({ ...ctx, text: '\n' });
+      return;
+    }
+
+    const next: MarkContext = { ...ctx };
+    if (tag === 'B' || tag === 'STRONG') next.bold = true;
+    if (tag === 'I' || tag === 'EM') next.italic = true;
+    if (tag === 'S' || tag === 'STRIKE' || tag === 'DEL') next.strike = true;
+    if (tag === 'CODE') next.code = true;
+    if (tag === 'A') {
+      const href = node.getAttribute('href') || '';
+      if (isSafeUrl(href)) next.href = href;
+    }
+
+    if ((tag === 'DIV' || tag === 'P') && node !== root && node.previousSibling) {
+      spans.push({ ...ctx, text: '\n' });
+    }
+
+    node.childNodes.forEach((child) => walk(child, next));
+  };
+
+  root.childNodes.forEach((child) => walk(child, {}));
+  return normalizeSpans(spans);
+}
+
+export function readRichText(root: HTMLElement): string {
+  return serializeSpans(domToSpans(root));
+}
+
+export function writeRichText(root: HTMLElement, source: string, resolvePage?: PageRefResolver) {
+  root.innerHTML = renderInline(source, resolvePage);
+}
+
+// Replace the range with a reference to a page and put the caret after it
+export function insertPageRef(range: Range, pageId: string, resolvePage: PageRefResolver) {
+  const template = document.createElement('template');
+  template.innerHTML = pageRefToHtml(pageId, 'Untitled', resolvePage) + '\u00a0';
+  const space = template.content.lastChild;
+  range.deleteContents();
+  range.insertNode(template.content);
+
+  const selection = window.getSelection();
+  if (space && selection) {
+    range.setStart(space, 1);
+    range.collapse(true);
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }
+}
+
+// Apply a mark to the current selection inside a rich-text editable
+export function toggleInlineMark(mark: InlineMark) {
+  if (mark === 'bold') {
+    document.execCommand('bold');
+    return;
+  }
+  if (mark === 'italic') {
+    document.execCommand('italic');
+    return;
+  }
+  if (mark === 'strike') {
+    document.execCommand('strikeThrough');
+    return;
+  }
+
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return;
+  const range = selection.getRangeAt(0);
+  const container = range.commonAncestorContainer;
+  const existing = (container instanceof HTMLElement ? container : container.parentElement)?.closest('code');
+
+  if (existing) {
+    existing.replaceWith(document.createTextNode(existing.textContent || ''));
+    return;
+  }
+
+  if (range.collapsed) return;
+  const code = document.createElement('code');
+  code.textContent = range.extractContents().textContent || '';
+  range.insertNode(code);
+  range.selectNodeContents(code);
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
+
+export function setInlineLink(url: string) {
+  if (!url) {
+    document.execCommand('unlink');
+  } else if (isSafeUrl(url)) {
+    document.execCommand('createLink', false, url);
+  }
+}
@@ -0,0 +1,25 @@
+// URL of a page, optionally pointing at one of its blocks
+export function pagePath(pageId: string, blockId?: string) {
+  return blockId ? `/p/${pageId}#${blockAnchorId(blockId)}` : `/p/${pageId}`;
+}
+
+// List of the pages tagged with a tag
+export function tagPath(tag: string) {
+  return `/tags/${encodeURIComponent(tag)}`;
+}
+
+// Graph of the workspace, optionally centred on one page
+export function graphPath(focusPageId?: string) {
+  return focusPageId ? `/graph?focus=${encodeURIComponent(focusPageId)}` : '/graph';
+}
+
+// DOM id (and URL fragment) of a block
+export function blockAnchorId(blockId: string) {
+  return `block-${blockId}`;
+}
+
+// Block id from a location hash like "#block-<id>"
+export function parseBlockAnchor(hash: string): string | null {
+  const match = /^#block-([\w-]+)$/.exec(hash);
+  return match ? match[1] : null;
+}
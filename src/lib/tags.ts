@@ -0,0 +1,23 @@
+import type { BlockType } from '@/hooks/useBlocks';
+
+// A #tag starts a line or follows whitespace. Must match sync_inline_tags in
+// the database, which keeps a page's inline tags in sync with its blocks.
+const INLINE_TAG = /(^|\s)#([A-Za-z][A-Za-z0-9_/-]*)/g;
+
+const VALID_TAG = /^[a-z][a-z0-9_/-]*$/;
+
+// Lowercased, without a leading #. Null when the input can't be a tag.
+export function normalizeTag(input: string): string | null {
+  const tag = input.trim().replace(/^#/, '').toLowerCase();
+  return VALID_TAG.test(tag) ? tag : null;
+}
+
+// Tags written inline in a block's content; code blocks have none
+export function extractTags(content: string, type: BlockType = 'paragraph'): string[] {
+  if (type === 'code') return [];
+  const tags = new Set<string>();
+  for (const match of content.matchAll(INLINE_TAG)) {
+    tags.add(match[2].toLowerCase());
+  }
+  return [...tags];
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -15,12 +15,15 @@ export default function Auth() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { user, signIn, signUp, signInWithGoogle, signInWithGitHub } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Where to go after signing in (e.g. a shared page link)
+  const redirectTo = (location.state as { from?: string } | null)?.from ?? '/';
 
   useEffect(() => {
     if (user) {
-      navigate('/');
+      navigate(redirectTo, { replace: true });
     }
-  }, [user, navigate]);
+  }, [user, navigate, redirectTo]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -48,7 +51,7 @@ export default function Auth() {
           }
         } else {
           toast.success('Welcome back!');
-          navigate('/');
+          navigate(redirectTo, { replace: true });
         }
       } else {
         const { error } = await signUp(email, password, displayName);
@@ -60,7 +63,7 @@ export default function Auth() {
           }
         } else {
           toast.success('Account created successfully!');
-          navigate('/');
+          navigate(redirectTo, { replace: true });
         }
       }
     } catch (error) {
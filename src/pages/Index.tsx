@@ -1,17 +1,18 @@
 import { useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import Workspace from './Workspace';
 
 const Index = () => {
   const { user, loading } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
 
   useEffect(() => {
     if (!loading && !user) {
-      navigate('/auth');
+      navigate('/auth', { state: { from: location.pathname + location.hash } });
     }
-  }, [user, loading, navigate]);
+  }, [user, loading, navigate, location.pathname, location.hash]);
 
   if (loading) {
     return (
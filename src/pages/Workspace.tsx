@@ -1,17 +1,31 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { useMatch, useNavigate, useParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { usePages } from '@/hooks/usePages';
+import { usePagesRealtime } from '@/hooks/useRealtimeSync';
+import { useRecentPages } from '@/hooks/useRecentPages';
 import { Sidebar } from '@/components/workspace/Sidebar';
 import { PageView } from '@/components/workspace/PageView';
 import { EmptyState } from '@/components/workspace/EmptyState';
+import { PageNotFound } from '@/components/workspace/PageNotFound';
+import { CommandPalette } from '@/components/workspace/CommandPalette';
+import { SearchView } from '@/components/workspace/SearchView';
+import { TagView } from '@/components/workspace/TagView';
+import { GraphView } from '@/components/workspace/GraphView';
+import { pagePath } from '@/lib/routes';
 import { toast } from 'sonner';
 
 export default function Workspace() {
   const { user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
   const { pages, loading: pagesLoading, createPage, updatePage } = usePages();
-  const [selectedPageId, setSelectedPageId] = useState<string | null>(null);
+  const { pageId: selectedPageId = null } = useParams<{ pageId: string }>();
+  const isSearch = !!useMatch('/search');
+  const tag = useMatch('/tags/:tag')?.params.tag ?? null;
+  const isGraph = !!useMatch('/graph');
+  usePagesRealtime(user?.id ?? null);
+  const { recentPageIds, addRecentPage } = useRecentPages(user?.id ?? null);
+  const [paletteOpen, setPaletteOpen] = useState(false);
 
   // Redirect to auth if not logged in
   useEffect(() => {
@@ -20,28 +34,46 @@ export default function Workspace() {
     }
   }, [user, authLoading, navigate]);
 
-  // Auto-select first page when pages load
+  // Open the first page when visiting the workspace root
   useEffect(() => {
-    if (!pagesLoading && pages.length > 0 && !selectedPageId) {
-      setSelectedPageId(pages[0].id);
+    if (!pagesLoading && pages.length > 0 && !selectedPageId && !isSearch && !tag && !isGraph) {
+      navigate(pagePath(pages[0].id), { replace: true });
     }
-  }, [pages, pagesLoading, selectedPageId]);
+  }, [pages, pagesLoading, selectedPageId, isSearch, tag, isGraph, navigate]);
+
+  // Cmd/Ctrl+K opens the palette. Listening on window means editor shortcuts
+  // (Cmd/Ctrl+K adds a link to selected text) get the event first.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k' && !e.defaultPrevented) {
+        e.preventDefault();
+        setPaletteOpen((open) => !open);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   const handleCreatePage = async () => {
     const { data, error } = await createPage('Untitled');
     if (error) {
       toast.error('Failed to create page');
     } else if (data) {
-      setSelectedPageId(data.id);
+      navigate(pagePath(data.id));
       toast.success('Page created');
     }
   };
 
-  const handleSelectPage = (pageId: string) => {
-    setSelectedPageId(pageId);
-  };
-
   const selectedPage = pages.find((p) => p.id === selectedPageId);
+  const selectedPageFound = !!selectedPage;
+
+  // Remember opened pages for the palette's "Recent" group
+  useEffect(() => {
+    if (selectedPageId && selectedPageFound) {
+      addRecentPage(selectedPageId);
+    }
+  }, [selectedPageId, selectedPageFound, addRecentPage]);
 
   if (authLoading) {
     return (
@@ -57,19 +89,37 @@ export default function Workspace() {
 
   return (
     <div className="flex h-screen bg-background">
-      <Sidebar selectedPageId={selectedPageId} onSelectPage={handleSelectPage} />
+      <Sidebar
+        selectedPageId={selectedPageId}
+        selectedTag={tag}
+        isGraphOpen={isGraph}
+        onOpenSearch={() => setPaletteOpen(true)}
+      />
 
       <main className="flex-1 flex flex-col">
-        {selectedPage ? (
-          <PageView
-            page={selectedPage}
-            onUpdatePage={updatePage}
-            onSelectPage={handleSelectPage}
-          />
+        {isSearch ? (
+          <SearchView />
+        ) : tag ? (
+          <TagView tag={tag} />
+        ) : isGraph ? (
+          <GraphView />
+        ) : selectedPage ? (
+          <PageView page={selectedPage} onUpdatePage={updatePage} />
+        ) : selectedPageId && pagesLoading ? (
+          <div className="flex-1 flex items-center justify-center text-muted-foreground">Loading...</div>
+        ) : selectedPageId ? (
+          <PageNotFound />
         ) : (
           <EmptyState onCreatePage={handleCreatePage} />
         )}
       </main>
+
+      <CommandPalette
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+        currentPageId={selectedPage?.id ?? null}
+        recentPageIds={recentPageIds}
+      />
     </div>
   );
 }
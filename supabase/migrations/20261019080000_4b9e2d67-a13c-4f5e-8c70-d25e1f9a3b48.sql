@@ -0,0 +1,7 @@
+-- Block content is now stored as inline markdown. Escape the markdown
+-- characters in existing plain text (the same set as escapeText in
+-- src/lib/richText.ts) so it keeps reading literally. Code blocks stay raw.
+UPDATE public.blocks
+SET content = regexp_replace(content, '([\\*~`\[\]])', '\\\1', 'g')
+WHERE type <> 'code'
+  AND content ~ '[\\*~`\[\]]';
@@ -0,0 +1,64 @@
+-- Switch block and page positions to fractional-index keys (see
+-- src/lib/fractionalIndex.ts) so inserts and moves write a single row.
+-- Keys compare byte-wise, hence COLLATE "C".
+
+-- Encode a non-negative integer as the integer part of an order key:
+-- a length head ('a' = 1 digit, 'b' = 2 digits, ...) followed by base-62 digits
+CREATE OR REPLACE FUNCTION public.position_key(n INTEGER)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  digits CONSTANT TEXT := '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+  result TEXT := '';
+  remaining INTEGER := n;
+BEGIN
+  LOOP
+    result := substr(digits, (remaining % 62) + 1, 1) || result;
+    remaining := remaining / 62;
+    EXIT WHEN remaining = 0;
+  END LOOP;
+
+  RETURN chr(ascii('a') + length(result) - 1) || result;
+END;
+$$;
+
+-- Blocks: rank within each page, keeping the current order
+ALTER TABLE public.blocks ADD COLUMN position_key TEXT COLLATE "C";
+
+UPDATE public.blocks AS b
+SET position_key = public.position_key(ranked.idx::INTEGER)
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY page_id ORDER BY position, created_at) - 1 AS idx
+  FROM public.blocks
+) AS ranked
+WHERE b.id = ranked.id;
+
+DROP INDEX IF EXISTS public.idx_blocks_position;
+ALTER TABLE public.blocks DROP COLUMN position;
+ALTER TABLE public.blocks RENAME COLUMN position_key TO position;
+ALTER TABLE public.blocks ALTER COLUMN position SET DEFAULT 'a0';
+ALTER TABLE public.blocks ALTER COLUMN position SET NOT NULL;
+CREATE INDEX idx_blocks_position ON public.blocks(page_id, position);
+
+-- Pages: rank among siblings, keeping the current order
+ALTER TABLE public.pages ADD COLUMN position_key TEXT COLLATE "C";
+
+UPDATE public.pages AS p
+SET position_key = public.position_key(ranked.idx::INTEGER)
+FROM (
+  SELECT id, row_number() OVER (
+    PARTITION BY user_id, parent_page_id
+    ORDER BY COALESCE(position, 0), created_at
+  ) - 1 AS idx
+  FROM public.pages
+) AS ranked
+WHERE p.id = ranked.id;
+
+ALTER TABLE public.pages DROP COLUMN position;
+ALTER TABLE public.pages RENAME COLUMN position_key TO position;
+ALTER TABLE public.pages ALTER COLUMN position SET DEFAULT 'a0';
+ALTER TABLE public.pages ALTER COLUMN position SET NOT NULL;
+CREATE INDEX idx_pages_position ON public.pages(parent_page_id, position);
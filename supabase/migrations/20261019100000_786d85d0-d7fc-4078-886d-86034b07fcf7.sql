@@ -0,0 +1,186 @@
+-- Transactional RPCs for multi-row block and page mutations.
+-- All functions run as the caller (SECURITY INVOKER), so the existing RLS
+-- policies still decide which rows can be read and written. Each locks the
+-- affected page row first so concurrent edits of one page are serialized.
+-- Positions are computed by the client (src/lib/fractionalIndex.ts); the
+-- functions verify them and raise 'position_conflict' rather than write an
+-- inconsistent order. The client then rebalances and retries.
+
+-- Insert a block directly after p_after_block_id (NULL = at the start)
+CREATE OR REPLACE FUNCTION public.insert_block_at(
+  p_page_id UUID,
+  p_type public.block_type,
+  p_content TEXT,
+  p_position TEXT,
+  p_after_block_id UUID DEFAULT NULL
+)
+RETURNS public.blocks
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_after TEXT COLLATE "C";
+  v_next TEXT COLLATE "C";
+  v_block public.blocks;
+BEGIN
+  PERFORM 1 FROM public.pages WHERE id = p_page_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  IF p_after_block_id IS NOT NULL THEN
+    SELECT position INTO v_after FROM public.blocks
+    WHERE id = p_after_block_id AND page_id = p_page_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'position_conflict';
+    END IF;
+  END IF;
+
+  SELECT min(position) INTO v_next FROM public.blocks
+  WHERE page_id = p_page_id AND (v_after IS NULL OR position > v_after);
+
+  IF (v_after IS NOT NULL AND p_position COLLATE "C" <= v_after)
+    OR (v_next IS NOT NULL AND p_position COLLATE "C" >= v_next) THEN
+    RAISE EXCEPTION 'position_conflict';
+  END IF;
+
+  INSERT INTO public.blocks (page_id, type, content, position)
+  VALUES (p_page_id, p_type, p_content, p_position)
+  RETURNING * INTO v_block;
+
+  RETURN v_block;
+END;
+$$;
+
+-- Move blocks (possibly from another page) onto p_page_id with new positions
+CREATE OR REPLACE FUNCTION public.move_blocks(
+  p_page_id UUID,
+  p_block_ids UUID[],
+  p_positions TEXT[]
+)
+RETURNS SETOF public.blocks
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF array_length(p_block_ids, 1) IS DISTINCT FROM array_length(p_positions, 1) THEN
+    RAISE EXCEPTION 'block_ids and positions must have the same length';
+  END IF;
+
+  PERFORM 1 FROM public.pages WHERE id = p_page_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  UPDATE public.blocks AS b
+  SET page_id = p_page_id, position = moved.position
+  FROM unnest(p_block_ids, p_positions) AS moved(id, position)
+  WHERE b.id = moved.id;
+
+  -- Duplicate keys would make the order ambiguous
+  IF EXISTS (
+    SELECT 1 FROM public.blocks
+    WHERE page_id = p_page_id
+    GROUP BY position
+    HAVING count(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'position_conflict';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.blocks WHERE id = ANY(p_block_ids) ORDER BY position;
+END;
+$$;
+
+-- Rewrite every block position on a page in the given order
+CREATE OR REPLACE FUNCTION public.reorder_blocks(
+  p_page_id UUID,
+  p_block_ids UUID[]
+)
+RETURNS SETOF public.blocks
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM public.pages WHERE id = p_page_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  -- Blocks missing from p_block_ids keep their relative order, after the rest
+  UPDATE public.blocks AS b
+  SET position = public.position_key((ranked.idx - 1)::INTEGER)
+  FROM (
+    SELECT blocks.id, row_number() OVER (
+      ORDER BY array_position(p_block_ids, blocks.id) NULLS LAST, blocks.position
+    ) AS idx
+    FROM public.blocks
+    WHERE blocks.page_id = p_page_id
+  ) AS ranked
+  WHERE b.id = ranked.id;
+
+  RETURN QUERY
+  SELECT * FROM public.blocks WHERE page_id = p_page_id ORDER BY position;
+END;
+$$;
+
+-- Move a page (with its whole subtree) under a new parent
+CREATE OR REPLACE FUNCTION public.move_page(
+  p_page_id UUID,
+  p_position TEXT,
+  p_new_parent_id UUID DEFAULT NULL
+)
+RETURNS public.pages
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_page public.pages;
+BEGIN
+  PERFORM 1 FROM public.pages WHERE id = p_page_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  IF p_new_parent_id IS NOT NULL AND EXISTS (
+    WITH RECURSIVE subtree AS (
+      SELECT id FROM public.pages WHERE id = p_page_id
+      UNION ALL
+      SELECT p.id FROM public.pages p JOIN subtree s ON p.parent_page_id = s.id
+    )
+    SELECT 1 FROM subtree WHERE id = p_new_parent_id
+  ) THEN
+    RAISE EXCEPTION 'Cannot move page to itself or its descendant';
+  END IF;
+
+  UPDATE public.pages
+  SET parent_page_id = p_new_parent_id, position = p_position
+  WHERE id = p_page_id
+  RETURNING * INTO v_page;
+
+  RETURN v_page;
+END;
+$$;
+
+-- Delete a page and its subtree, returning every deleted page id
+CREATE OR REPLACE FUNCTION public.delete_page(p_page_id UUID)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_ids UUID[];
+BEGIN
+  WITH RECURSIVE subtree AS (
+    SELECT id FROM public.pages WHERE id = p_page_id
+    UNION ALL
+    SELECT p.id FROM public.pages p JOIN subtree s ON p.parent_page_id = s.id
+  )
+  SELECT array_agg(id) INTO v_ids FROM subtree;
+
+  -- Children and blocks go with it via ON DELETE CASCADE
+  DELETE FROM public.pages WHERE id = p_page_id;
+
+  RETURN COALESCE(v_ids, ARRAY[]::UUID[]);
+END;
+$$;
@@ -0,0 +1,8 @@
+-- Broadcast block and page changes so open tabs and devices stay in sync.
+-- REPLICA IDENTITY FULL makes UPDATE and DELETE events carry the whole old
+-- row (page_id, parent_page_id), which clients need to route them.
+ALTER TABLE public.blocks REPLICA IDENTITY FULL;
+ALTER TABLE public.pages REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.blocks;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.pages;
@@ -0,0 +1,70 @@
+-- Full-text search over block content and page titles.
+-- The 'simple' configuration lowercases without stemming or stop words, which
+-- suits code and identifiers. Expression indexes keep the tables unchanged.
+CREATE INDEX idx_blocks_content_search
+  ON public.blocks USING GIN (to_tsvector('simple', content));
+
+CREATE INDEX idx_pages_title_search
+  ON public.pages USING GIN (to_tsvector('simple', title));
+
+-- Search blocks and page titles. Every word in p_query must match, as a
+-- prefix, so results appear while typing. Snippets wrap matches in <mark>.
+-- Title hits have a NULL block_id and are skipped when filtering by block type.
+-- Runs as the caller, so RLS limits results to the user's own pages.
+CREATE OR REPLACE FUNCTION public.search_workspace(
+  p_query TEXT,
+  p_block_types public.block_type[] DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  page_id UUID,
+  block_id UUID,
+  block_type public.block_type,
+  snippet TEXT,
+  rank REAL,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('simple', string_agg(term[1] || ':*', ' & ')) AS query
+    FROM regexp_matches(lower(p_query), '([[:alnum:]]+)', 'g') AS term
+  ),
+  hits AS (
+    SELECT
+      p.id AS page_id,
+      NULL::UUID AS block_id,
+      NULL::public.block_type AS block_type,
+      ts_headline('simple', p.title, q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS snippet,
+      -- Title matches outrank body matches
+      ts_rank(to_tsvector('simple', p.title), q.query) * 2 AS rank,
+      p.updated_at
+    FROM public.pages p, q
+    WHERE p_block_types IS NULL
+      AND to_tsvector('simple', p.title) @@ q.query
+      AND (p_from IS NULL OR p.updated_at >= p_from)
+      AND (p_to IS NULL OR p.updated_at < p_to)
+
+    UNION ALL
+
+    SELECT
+      b.page_id,
+      b.id,
+      b.type,
+      ts_headline('simple', b.content, q.query, 'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2'),
+      ts_rank(to_tsvector('simple', b.content), q.query),
+      b.updated_at
+    FROM public.blocks b, q
+    WHERE to_tsvector('simple', b.content) @@ q.query
+      AND (p_block_types IS NULL OR b.type = ANY(p_block_types))
+      AND (p_from IS NULL OR b.updated_at >= p_from)
+      AND (p_to IS NULL OR b.updated_at < p_to)
+  )
+  SELECT * FROM hits
+  ORDER BY rank DESC, updated_at DESC
+  LIMIT p_limit;
+$$;
@@ -0,0 +1,280 @@
+-- Trash: pages and blocks are soft-deleted by setting deleted_at and purged
+-- for good once they have been in the trash longer than the retention period.
+-- Trashing a page stamps its whole subtree and their blocks with the same
+-- deleted_at, so a restore brings back exactly what was trashed together and
+-- nothing that was deleted on its own before.
+ALTER TABLE public.pages ADD COLUMN deleted_at TIMESTAMPTZ;
+ALTER TABLE public.blocks ADD COLUMN deleted_at TIMESTAMPTZ;
+
+CREATE INDEX idx_pages_deleted_at ON public.pages (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_blocks_deleted_at ON public.blocks (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Move a page and its subtree to the trash, returning every trashed page id
+CREATE OR REPLACE FUNCTION public.trash_page(p_page_id UUID)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_ids UUID[];
+BEGIN
+  PERFORM 1 FROM public.pages WHERE id = p_page_id AND deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  WITH RECURSIVE subtree AS (
+    SELECT id FROM public.pages WHERE id = p_page_id
+    UNION ALL
+    SELECT p.id FROM public.pages p JOIN subtree s ON p.parent_page_id = s.id
+    WHERE p.deleted_at IS NULL
+  )
+  SELECT array_agg(id) INTO v_ids FROM subtree;
+
+  -- now() is fixed for the transaction, so every row gets the same stamp
+  UPDATE public.pages SET deleted_at = now() WHERE id = ANY(v_ids);
+  UPDATE public.blocks SET deleted_at = now() WHERE page_id = ANY(v_ids) AND deleted_at IS NULL;
+
+  RETURN v_ids;
+END;
+$$;
+
+-- Restore a trashed page with everything trashed along with it. The page goes
+-- back under its original parent, or to the root if that parent is gone or
+-- still in the trash, at p_position among its new siblings.
+CREATE OR REPLACE FUNCTION public.restore_page(p_page_id UUID, p_position TEXT)
+RETURNS SETOF public.pages
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted_at TIMESTAMPTZ;
+  v_parent_id UUID;
+  v_ids UUID[];
+BEGIN
+  SELECT deleted_at, parent_page_id INTO v_deleted_at, v_parent_id
+  FROM public.pages WHERE id = p_page_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+  IF v_deleted_at IS NULL THEN
+    RAISE EXCEPTION 'page_not_in_trash';
+  END IF;
+
+  IF v_parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.pages WHERE id = v_parent_id AND deleted_at IS NULL
+  ) THEN
+    v_parent_id := NULL;
+  END IF;
+
+  WITH RECURSIVE subtree AS (
+    SELECT id FROM public.pages WHERE id = p_page_id
+    UNION ALL
+    SELECT p.id FROM public.pages p JOIN subtree s ON p.parent_page_id = s.id
+    WHERE p.deleted_at = v_deleted_at
+  )
+  SELECT array_agg(id) INTO v_ids FROM subtree;
+
+  UPDATE public.pages SET deleted_at = NULL WHERE id = ANY(v_ids);
+  UPDATE public.pages SET parent_page_id = v_parent_id, position = p_position WHERE id = p_page_id;
+  UPDATE public.blocks SET deleted_at = NULL WHERE page_id = ANY(v_ids) AND deleted_at = v_deleted_at;
+
+  RETURN QUERY
+  SELECT * FROM public.pages WHERE id = ANY(v_ids);
+END;
+$$;
+
+-- Permanently delete everything that has been in the trash for longer than
+-- p_retention_days. Called by the client when it loads the page list.
+CREATE OR REPLACE FUNCTION public.purge_trash(p_retention_days INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_cutoff TIMESTAMPTZ := now() - make_interval(days => p_retention_days);
+BEGIN
+  -- Trashed subtrees and blocks go with their pages via ON DELETE CASCADE
+  DELETE FROM public.pages WHERE deleted_at < v_cutoff;
+  DELETE FROM public.blocks WHERE deleted_at < v_cutoff;
+END;
+$$;
+
+-- The block RPCs below are redefined to ignore trashed blocks, whose stale
+-- positions would otherwise collide with the live ones.
+
+CREATE OR REPLACE FUNCTION public.insert_block_at(
+  p_page_id UUID,
+  p_type public.block_type,
+  p_content TEXT,
+  p_position TEXT,
+  p_after_block_id UUID DEFAULT NULL
+)
+RETURNS public.blocks
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_after TEXT COLLATE "C";
+  v_next TEXT COLLATE "C";
+  v_block public.blocks;
+BEGIN
+  PERFORM 1 FROM public.pages WHERE id = p_page_id AND deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  IF p_after_block_id IS NOT NULL THEN
+    SELECT position INTO v_after FROM public.blocks
+    WHERE id = p_after_block_id AND page_id = p_page_id AND deleted_at IS NULL;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'position_conflict';
+    END IF;
+  END IF;
+
+  SELECT min(position) INTO v_next FROM public.blocks
+  WHERE page_id = p_page_id AND deleted_at IS NULL AND (v_after IS NULL OR position > v_after);
+
+  IF (v_after IS NOT NULL AND p_position COLLATE "C" <= v_after)
+    OR (v_next IS NOT NULL AND p_position COLLATE "C" >= v_next) THEN
+    RAISE EXCEPTION 'position_conflict';
+  END IF;
+
+  INSERT INTO public.blocks (page_id, type, content, position)
+  VALUES (p_page_id, p_type, p_content, p_position)
+  RETURNING * INTO v_block;
+
+  RETURN v_block;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.move_blocks(
+  p_page_id UUID,
+  p_block_ids UUID[],
+  p_positions TEXT[]
+)
+RETURNS SETOF public.blocks
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF array_length(p_block_ids, 1) IS DISTINCT FROM array_length(p_positions, 1) THEN
+    RAISE EXCEPTION 'block_ids and positions must have the same length';
+  END IF;
+
+  PERFORM 1 FROM public.pages WHERE id = p_page_id AND deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  UPDATE public.blocks AS b
+  SET page_id = p_page_id, position = moved.position
+  FROM unnest(p_block_ids, p_positions) AS moved(id, position)
+  WHERE b.id = moved.id;
+
+  -- Duplicate keys would make the order ambiguous
+  IF EXISTS (
+    SELECT 1 FROM public.blocks
+    WHERE page_id = p_page_id AND deleted_at IS NULL
+    GROUP BY position
+    HAVING count(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'position_conflict';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.blocks WHERE id = ANY(p_block_ids) ORDER BY position;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reorder_blocks(
+  p_page_id UUID,
+  p_block_ids UUID[]
+)
+RETURNS SETOF public.blocks
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM public.pages WHERE id = p_page_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  -- Blocks missing from p_block_ids keep their relative order, after the rest
+  UPDATE public.blocks AS b
+  SET position = public.position_key((ranked.idx - 1)::INTEGER)
+  FROM (
+    SELECT blocks.id, row_number() OVER (
+      ORDER BY array_position(p_block_ids, blocks.id) NULLS LAST, blocks.position
+    ) AS idx
+    FROM public.blocks
+    WHERE blocks.page_id = p_page_id AND blocks.deleted_at IS NULL
+  ) AS ranked
+  WHERE b.id = ranked.id;
+
+  RETURN QUERY
+  SELECT * FROM public.blocks WHERE page_id = p_page_id AND deleted_at IS NULL ORDER BY position;
+END;
+$$;
+
+-- Search skips anything in the trash
+CREATE OR REPLACE FUNCTION public.search_workspace(
+  p_query TEXT,
+  p_block_types public.block_type[] DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  page_id UUID,
+  block_id UUID,
+  block_type public.block_type,
+  snippet TEXT,
+  rank REAL,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('simple', string_agg(term[1] || ':*', ' & ')) AS query
+    FROM regexp_matches(lower(p_query), '([[:alnum:]]+)', 'g') AS term
+  ),
+  hits AS (
+    SELECT
+      p.id AS page_id,
+      NULL::UUID AS block_id,
+      NULL::public.block_type AS block_type,
+      ts_headline('simple', p.title, q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS snippet,
+      -- Title matches outrank body matches
+      ts_rank(to_tsvector('simple', p.title), q.query) * 2 AS rank,
+      p.updated_at
+    FROM public.pages p, q
+    WHERE p_block_types IS NULL
+      AND p.deleted_at IS NULL
+      AND to_tsvector('simple', p.title) @@ q.query
+      AND (p_from IS NULL OR p.updated_at >= p_from)
+      AND (p_to IS NULL OR p.updated_at < p_to)
+
+    UNION ALL
+
+    SELECT
+      b.page_id,
+      b.id,
+      b.type,
+      ts_headline('simple', b.content, q.query, 'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2'),
+      ts_rank(to_tsvector('simple', b.content), q.query),
+      b.updated_at
+    FROM public.blocks b, q
+    WHERE b.deleted_at IS NULL
+      AND to_tsvector('simple', b.content) @@ q.query
+      AND (p_block_types IS NULL OR b.type = ANY(p_block_types))
+      AND (p_from IS NULL OR b.updated_at >= p_from)
+      AND (p_to IS NULL OR b.updated_at < p_to)
+  )
+  SELECT * FROM hits
+  ORDER BY rank DESC, updated_at DESC
+  LIMIT p_limit;
+$$;
@@ -0,0 +1,161 @@
+-- Page version history. Each version is a snapshot of a page's title and its
+-- live blocks in order, stored as JSONB so later edits never change it.
+CREATE TABLE public.page_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  page_id UUID REFERENCES public.pages(id) ON DELETE CASCADE NOT NULL,
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Copied from the author's profile, which other users can't read
+  author_name TEXT,
+  -- 'auto' (periodic), 'manual' (saved by the user) or 'restore'
+  reason TEXT NOT NULL DEFAULT 'manual' CHECK (reason IN ('auto', 'manual', 'restore')),
+  restored_from UUID REFERENCES public.page_versions(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  -- [{ id, type, content, checked }] in page order
+  blocks JSONB NOT NULL DEFAULT '[]'::JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.page_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are written only through the functions below, so there is no
+-- UPDATE policy
+CREATE POLICY "Users can view versions of their pages" ON public.page_versions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.pages
+      WHERE pages.id = page_versions.page_id
+      AND pages.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert versions of their pages" ON public.page_versions
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.pages
+      WHERE pages.id = page_versions.page_id
+      AND pages.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX idx_page_versions_page_id ON public.page_versions(page_id, created_at DESC);
+
+-- Snapshot a page as a new version. An 'auto' snapshot is skipped (returns
+-- NULL) when nothing changed since the latest version.
+CREATE OR REPLACE FUNCTION public.snapshot_page(
+  p_page_id UUID,
+  p_reason TEXT DEFAULT 'manual',
+  p_restored_from UUID DEFAULT NULL
+)
+RETURNS public.page_versions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_title TEXT;
+  v_blocks JSONB;
+  v_latest public.page_versions;
+  v_version public.page_versions;
+BEGIN
+  SELECT title INTO v_title FROM public.pages WHERE id = p_page_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object('id', id, 'type', type, 'content', content, 'checked', checked)
+      ORDER BY position
+    ),
+    '[]'::JSONB
+  ) INTO v_blocks
+  FROM public.blocks
+  WHERE page_id = p_page_id AND deleted_at IS NULL;
+
+  IF p_reason = 'auto' THEN
+    SELECT * INTO v_latest FROM public.page_versions
+    WHERE page_id = p_page_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+    IF FOUND AND v_latest.title = v_title AND v_latest.blocks = v_blocks THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO public.page_versions (page_id, author_id, author_name, reason, restored_from, title, blocks)
+  VALUES (
+    p_page_id,
+    auth.uid(),
+    (SELECT display_name FROM public.profiles WHERE user_id = auth.uid()),
+    p_reason,
+    p_restored_from,
+    v_title,
+    v_blocks
+  )
+  RETURNING * INTO v_version;
+
+  RETURN v_version;
+END;
+$$;
+
+-- Put a page back the way a version recorded it. The current state is
+-- snapshotted first (if it isn't already), and the restored state is saved
+-- as a new 'restore' version, which is returned. Blocks keep their ids where
+-- possible; blocks added since go to the trash.
+CREATE OR REPLACE FUNCTION public.restore_page_version(p_version_id UUID)
+RETURNS public.page_versions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_version public.page_versions;
+BEGIN
+  SELECT * INTO v_version FROM public.page_versions WHERE id = p_version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'version_not_found';
+  END IF;
+
+  PERFORM 1 FROM public.pages WHERE id = v_version.page_id AND deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  PERFORM public.snapshot_page(v_version.page_id, 'auto');
+
+  UPDATE public.pages SET title = v_version.title WHERE id = v_version.page_id;
+
+  UPDATE public.blocks SET deleted_at = now()
+  WHERE page_id = v_version.page_id
+    AND deleted_at IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(v_version.blocks) AS b
+      WHERE (b.value ->> 'id')::UUID = blocks.id
+    );
+
+  -- A block that has since moved to another page stays there; the version's
+  -- copy comes back under a new id
+  INSERT INTO public.blocks (id, page_id, type, content, checked, position, deleted_at)
+  SELECT
+    CASE
+      WHEN EXISTS (
+        SELECT 1 FROM public.blocks other
+        WHERE other.id = (b.value ->> 'id')::UUID AND other.page_id <> v_version.page_id
+      ) THEN gen_random_uuid()
+      ELSE (b.value ->> 'id')::UUID
+    END,
+    v_version.page_id,
+    (b.value ->> 'type')::public.block_type,
+    b.value ->> 'content',
+    COALESCE((b.value ->> 'checked')::BOOLEAN, false),
+    public.position_key((b.ordinality - 1)::INTEGER),
+    NULL
+  FROM jsonb_array_elements(v_version.blocks) WITH ORDINALITY AS b
+  ON CONFLICT (id) DO UPDATE
+  SET type = EXCLUDED.type,
+      content = EXCLUDED.content,
+      checked = EXCLUDED.checked,
+      position = EXCLUDED.position,
+      deleted_at = NULL;
+
+  RETURN public.snapshot_page(v_version.page_id, 'restore', p_version_id);
+END;
+$$;
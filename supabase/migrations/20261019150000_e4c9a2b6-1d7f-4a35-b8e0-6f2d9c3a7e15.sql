@@ -0,0 +1,228 @@
+-- Draft branches of a page. A branch is a hidden page (branch_of set) holding
+-- copies of the main page's blocks, so it is edited with the normal editor.
+-- Each copy remembers the block it came from, and the branch keeps the main
+-- page's blocks as they were when it was created: the base for a three-way
+-- merge (see src/lib/branchMerge.ts).
+ALTER TABLE public.pages
+  ADD COLUMN branch_of UUID REFERENCES public.pages(id) ON DELETE CASCADE,
+  ADD COLUMN branch_name TEXT,
+  ADD COLUMN branch_base JSONB;
+
+ALTER TABLE public.blocks ADD COLUMN source_block_id UUID;
+
+CREATE INDEX idx_pages_branch_of ON public.pages(branch_of) WHERE branch_of IS NOT NULL;
+
+ALTER TABLE public.page_versions DROP CONSTRAINT page_versions_reason_check;
+ALTER TABLE public.page_versions ADD CONSTRAINT page_versions_reason_check
+  CHECK (reason IN ('auto', 'manual', 'restore', 'merge'));
+
+-- Branch a page, copying its live blocks
+CREATE OR REPLACE FUNCTION public.create_page_branch(p_page_id UUID, p_name TEXT)
+RETURNS public.pages
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_page public.pages;
+  v_branch public.pages;
+BEGIN
+  SELECT * INTO v_page FROM public.pages
+  WHERE id = p_page_id AND deleted_at IS NULL AND branch_of IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  INSERT INTO public.pages (user_id, title, icon, position, branch_of, branch_name, branch_base)
+  VALUES (
+    v_page.user_id,
+    v_page.title,
+    v_page.icon,
+    v_page.position,
+    p_page_id,
+    p_name,
+    (
+      SELECT COALESCE(
+        jsonb_agg(
+          jsonb_build_object('id', id, 'type', type, 'content', content, 'checked', checked)
+          ORDER BY position
+        ),
+        '[]'::JSONB
+      )
+      FROM public.blocks
+      WHERE page_id = p_page_id AND deleted_at IS NULL
+    )
+  )
+  RETURNING * INTO v_branch;
+
+  INSERT INTO public.blocks (page_id, type, content, checked, position, source_block_id)
+  SELECT v_branch.id, type, content, checked, position, id
+  FROM public.blocks
+  WHERE page_id = p_page_id AND deleted_at IS NULL;
+
+  RETURN v_branch;
+END;
+$$;
+
+-- Make a page's live blocks exactly p_blocks ([{ id, type, content, checked }]
+-- in order). Blocks already on the page are updated in place, those missing
+-- from p_blocks go to the trash, and the rest are inserted. An id that belongs
+-- to a block on another page (e.g. a branch's own block) gets a new id.
+CREATE OR REPLACE FUNCTION public.apply_page_blocks(p_page_id UUID, p_blocks JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.blocks SET deleted_at = now()
+  WHERE page_id = p_page_id
+    AND deleted_at IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_blocks) AS b
+      WHERE (b.value ->> 'id')::UUID = blocks.id
+    );
+
+  INSERT INTO public.blocks (id, page_id, type, content, checked, position, deleted_at)
+  SELECT
+    CASE
+      WHEN EXISTS (
+        SELECT 1 FROM public.blocks other
+        WHERE other.id = (b.value ->> 'id')::UUID AND other.page_id <> p_page_id
+      ) THEN gen_random_uuid()
+      ELSE (b.value ->> 'id')::UUID
+    END,
+    p_page_id,
+    (b.value ->> 'type')::public.block_type,
+    b.value ->> 'content',
+    COALESCE((b.value ->> 'checked')::BOOLEAN, false),
+    public.position_key((b.ordinality - 1)::INTEGER),
+    NULL
+  FROM jsonb_array_elements(p_blocks) WITH ORDINALITY AS b
+  ON CONFLICT (id) DO UPDATE
+  SET type = EXCLUDED.type,
+      content = EXCLUDED.content,
+      checked = EXCLUDED.checked,
+      position = EXCLUDED.position,
+      deleted_at = NULL;
+END;
+$$;
+
+-- Same behaviour as before, now sharing apply_page_blocks with merges
+CREATE OR REPLACE FUNCTION public.restore_page_version(p_version_id UUID)
+RETURNS public.page_versions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_version public.page_versions;
+BEGIN
+  SELECT * INTO v_version FROM public.page_versions WHERE id = p_version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'version_not_found';
+  END IF;
+
+  PERFORM 1 FROM public.pages WHERE id = v_version.page_id AND deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  PERFORM public.snapshot_page(v_version.page_id, 'auto');
+
+  UPDATE public.pages SET title = v_version.title WHERE id = v_version.page_id;
+  PERFORM public.apply_page_blocks(v_version.page_id, v_version.blocks);
+
+  RETURN public.snapshot_page(v_version.page_id, 'restore', p_version_id);
+END;
+$$;
+
+-- Merge a branch into its page: p_blocks is the merged result worked out by
+-- the client, with conflicts already resolved. The page is snapshotted before
+-- and after, and the branch is deleted. Returns the 'merge' version.
+CREATE OR REPLACE FUNCTION public.merge_page_branch(p_branch_id UUID, p_blocks JSONB)
+RETURNS public.page_versions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_page_id UUID;
+BEGIN
+  SELECT branch_of INTO v_page_id FROM public.pages WHERE id = p_branch_id FOR UPDATE;
+  IF v_page_id IS NULL THEN
+    RAISE EXCEPTION 'branch_not_found';
+  END IF;
+
+  PERFORM 1 FROM public.pages WHERE id = v_page_id AND deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  PERFORM public.snapshot_page(v_page_id, 'auto');
+  PERFORM public.apply_page_blocks(v_page_id, p_blocks);
+  DELETE FROM public.pages WHERE id = p_branch_id;
+
+  RETURN public.snapshot_page(v_page_id, 'merge');
+END;
+$$;
+
+-- Search skips branches; their content reaches search once merged
+CREATE OR REPLACE FUNCTION public.search_workspace(
+  p_query TEXT,
+  p_block_types public.block_type[] DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  page_id UUID,
+  block_id UUID,
+  block_type public.block_type,
+  snippet TEXT,
+  rank REAL,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('simple', string_agg(term[1] || ':*', ' & ')) AS query
+    FROM regexp_matches(lower(p_query), '([[:alnum:]]+)', 'g') AS term
+  ),
+  hits AS (
+    SELECT
+      p.id AS page_id,
+      NULL::UUID AS block_id,
+      NULL::public.block_type AS block_type,
+      ts_headline('simple', p.title, q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS snippet,
+      -- Title matches outrank body matches
+      ts_rank(to_tsvector('simple', p.title), q.query) * 2 AS rank,
+      p.updated_at
+    FROM public.pages p, q
+    WHERE p_block_types IS NULL
+      AND p.deleted_at IS NULL
+      AND p.branch_of IS NULL
+      AND to_tsvector('simple', p.title) @@ q.query
+      AND (p_from IS NULL OR p.updated_at >= p_from)
+      AND (p_to IS NULL OR p.updated_at < p_to)
+
+    UNION ALL
+
+    SELECT
+      b.page_id,
+      b.id,
+      b.type,
+      ts_headline('simple', b.content, q.query, 'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2'),
+      ts_rank(to_tsvector('simple', b.content), q.query),
+      b.updated_at
+    FROM public.blocks b
+    JOIN public.pages bp ON bp.id = b.page_id AND bp.branch_of IS NULL, q
+    WHERE b.deleted_at IS NULL
+      AND to_tsvector('simple', b.content) @@ q.query
+      AND (p_block_types IS NULL OR b.type = ANY(p_block_types))
+      AND (p_from IS NULL OR b.updated_at >= p_from)
+      AND (p_to IS NULL OR b.updated_at < p_to)
+  )
+  SELECT * FROM hits
+  ORDER BY rank DESC, updated_at DESC
+  LIMIT p_limit;
+$$;
@@ -0,0 +1,81 @@
+-- Page status, picked in the page header. Archived pages leave the main
+-- page tree for the sidebar's Archive section.
+CREATE TYPE public.page_status AS ENUM (
+  'in_progress',
+  'draft',
+  'complete',
+  'archived'
+);
+
+ALTER TABLE public.pages ADD COLUMN status public.page_status NOT NULL DEFAULT 'in_progress';
+
+CREATE INDEX idx_pages_status ON public.pages(user_id, status);
+
+-- search_workspace gains a status filter, which changes its signature
+DROP FUNCTION public.search_workspace(TEXT, public.block_type[], TIMESTAMPTZ, TIMESTAMPTZ, INTEGER);
+
+-- Block hits are filtered by the status of their page
+CREATE OR REPLACE FUNCTION public.search_workspace(
+  p_query TEXT,
+  p_block_types public.block_type[] DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_statuses public.page_status[] DEFAULT NULL
+)
+RETURNS TABLE (
+  page_id UUID,
+  block_id UUID,
+  block_type public.block_type,
+  snippet TEXT,
+  rank REAL,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('simple', string_agg(term[1] || ':*', ' & ')) AS query
+    FROM regexp_matches(lower(p_query), '([[:alnum:]]+)', 'g') AS term
+  ),
+  hits AS (
+    SELECT
+      p.id AS page_id,
+      NULL::UUID AS block_id,
+      NULL::public.block_type AS block_type,
+      ts_headline('simple', p.title, q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS snippet,
+      -- Title matches outrank body matches
+      ts_rank(to_tsvector('simple', p.title), q.query) * 2 AS rank,
+      p.updated_at
+    FROM public.pages p, q
+    WHERE p_block_types IS NULL
+      AND p.deleted_at IS NULL
+      AND p.branch_of IS NULL
+      AND (p_statuses IS NULL OR p.status = ANY(p_statuses))
+      AND to_tsvector('simple', p.title) @@ q.query
+      AND (p_from IS NULL OR p.updated_at >= p_from)
+      AND (p_to IS NULL OR p.updated_at < p_to)
+
+    UNION ALL
+
+    SELECT
+      b.page_id,
+      b.id,
+      b.type,
+      ts_headline('simple', b.content, q.query, 'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2'),
+      ts_rank(to_tsvector('simple', b.content), q.query),
+      b.updated_at
+    FROM public.blocks b
+    JOIN public.pages bp ON bp.id = b.page_id AND bp.branch_of IS NULL, q
+    WHERE b.deleted_at IS NULL
+      AND (p_statuses IS NULL OR bp.status = ANY(p_statuses))
+      AND to_tsvector('simple', b.content) @@ q.query
+      AND (p_block_types IS NULL OR b.type = ANY(p_block_types))
+      AND (p_from IS NULL OR b.updated_at >= p_from)
+      AND (p_to IS NULL OR b.updated_at < p_to)
+  )
+  SELECT * FROM hits
+  ORDER BY rank DESC, updated_at DESC
+  LIMIT p_limit;
+$$;
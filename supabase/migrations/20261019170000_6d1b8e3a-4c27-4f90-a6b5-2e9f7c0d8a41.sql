@@ -0,0 +1,184 @@
+-- Custom typed page properties. Each user keeps one property schema that all
+-- of their pages share; a page holds a value for any subset of it.
+CREATE TYPE public.property_type AS ENUM (
+  'text',
+  'number',
+  'select',
+  'multi_select',
+  'date',
+  'person',
+  'url',
+  'checkbox'
+);
+
+CREATE TABLE public.page_properties (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  type public.property_type NOT NULL,
+  -- Choices of a select or multi-select property
+  options TEXT[] NOT NULL DEFAULT '{}',
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.page_properties ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own properties" ON public.page_properties
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own properties" ON public.page_properties
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own properties" ON public.page_properties
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own properties" ON public.page_properties
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_page_properties_updated_at
+  BEFORE UPDATE ON public.page_properties
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A property's value on a page, as JSON shaped by the property type: a string
+-- for text, person, URL, select and date ('YYYY-MM-DD'), a number, a boolean
+-- for checkbox, and an array of strings for multi-select. An unset value has
+-- no row.
+CREATE TABLE public.page_property_values (
+  page_id UUID REFERENCES public.pages(id) ON DELETE CASCADE NOT NULL,
+  property_id UUID REFERENCES public.page_properties(id) ON DELETE CASCADE NOT NULL,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (page_id, property_id)
+);
+
+ALTER TABLE public.page_property_values ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view property values of their pages" ON public.page_property_values
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.pages
+      WHERE pages.id = page_property_values.page_id
+      AND pages.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert property values to their pages" ON public.page_property_values
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.pages
+      WHERE pages.id = page_property_values.page_id
+      AND pages.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update property values of their pages" ON public.page_property_values
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.pages
+      WHERE pages.id = page_property_values.page_id
+      AND pages.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete property values of their pages" ON public.page_property_values
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.pages
+      WHERE pages.id = page_property_values.page_id
+      AND pages.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX idx_page_property_values_property ON public.page_property_values(property_id);
+
+CREATE TRIGGER update_page_property_values_updated_at
+  BEFORE UPDATE ON public.page_property_values
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- search_workspace gains a property filter, which changes its signature
+DROP FUNCTION public.search_workspace(TEXT, public.block_type[], TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, public.page_status[]);
+
+-- With p_property_id set, only pages with a value for that property match. A
+-- p_property_value narrows that to values containing it (JSONB @>), so a
+-- multi-select matches on any one of its options.
+CREATE OR REPLACE FUNCTION public.search_workspace(
+  p_query TEXT,
+  p_block_types public.block_type[] DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_statuses public.page_status[] DEFAULT NULL,
+  p_property_id UUID DEFAULT NULL,
+  p_property_value JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  page_id UUID,
+  block_id UUID,
+  block_type public.block_type,
+  snippet TEXT,
+  rank REAL,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('simple', string_agg(term[1] || ':*', ' & ')) AS query
+    FROM regexp_matches(lower(p_query), '([[:alnum:]]+)', 'g') AS term
+  ),
+  matching_pages AS (
+    SELECT p.id, p.title, p.updated_at
+    FROM public.pages p
+    WHERE p.deleted_at IS NULL
+      AND p.branch_of IS NULL
+      AND (p_statuses IS NULL OR p.status = ANY(p_statuses))
+      AND (
+        p_property_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM public.page_property_values v
+          WHERE v.page_id = p.id
+            AND v.property_id = p_property_id
+            AND (p_property_value IS NULL OR v.value @> p_property_value)
+        )
+      )
+  ),
+  hits AS (
+    SELECT
+      p.id AS page_id,
+      NULL::UUID AS block_id,
+      NULL::public.block_type AS block_type,
+      ts_headline('simple', p.title, q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS snippet,
+      -- Title matches outrank body matches
+      ts_rank(to_tsvector('simple', p.title), q.query) * 2 AS rank,
+      p.updated_at
+    FROM matching_pages p, q
+    WHERE p_block_types IS NULL
+      AND to_tsvector('simple', p.title) @@ q.query
+      AND (p_from IS NULL OR p.updated_at >= p_from)
+      AND (p_to IS NULL OR p.updated_at < p_to)
+
+    UNION ALL
+
+    SELECT
+      b.page_id,
+      b.id,
+      b.type,
+      ts_headline('simple', b.content, q.query, 'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2'),
+      ts_rank(to_tsvector('simple', b.content), q.query),
+      b.updated_at
+    FROM public.blocks b
+    JOIN matching_pages bp ON bp.id = b.page_id, q
+    WHERE b.deleted_at IS NULL
+      AND to_tsvector('simple', b.content) @@ q.query
+      AND (p_block_types IS NULL OR b.type = ANY(p_block_types))
+      AND (p_from IS NULL OR b.updated_at >= p_from)
+      AND (p_to IS NULL OR b.updated_at < p_to)
+  )
+  SELECT * FROM hits
+  ORDER BY rank DESC, updated_at DESC
+  LIMIT p_limit;
+$$;
@@ -0,0 +1,92 @@
+-- Page tags. A tag is either added to the page by hand ('manual') or written
+-- as #tag in one of its blocks ('inline'); inline rows are kept in sync with
+-- block content by the trigger below. Tags are stored lowercase.
+CREATE TABLE public.page_tags (
+  page_id UUID REFERENCES public.pages(id) ON DELETE CASCADE NOT NULL,
+  tag TEXT NOT NULL CHECK (tag ~ '^[a-z][a-z0-9_/-]*$'),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'inline')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (page_id, tag, source)
+);
+
+ALTER TABLE public.page_tags ENABLE ROW LEVEL SECURITY;
+
+-- Inline rows are written only by the trigger
+CREATE POLICY "Users can view tags of their pages" ON public.page_tags
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.pages
+      WHERE pages.id = page_tags.page_id
+      AND pages.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert tags to their pages" ON public.page_tags
+  FOR INSERT WITH CHECK (
+    source = 'manual'
+    AND EXISTS (
+      SELECT 1 FROM public.pages
+      WHERE pages.id = page_tags.page_id
+      AND pages.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete tags of their pages" ON public.page_tags
+  FOR DELETE USING (
+    source = 'manual'
+    AND EXISTS (
+      SELECT 1 FROM public.pages
+      WHERE pages.id = page_tags.page_id
+      AND pages.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX idx_page_tags_tag ON public.page_tags(tag);
+
+-- Rebuild a page's inline tags from its live blocks. A tag starts a line or
+-- follows whitespace, so link targets like (#anchor) and `#code` don't count;
+-- code blocks are skipped. Branch pages keep no tags of their own.
+CREATE OR REPLACE FUNCTION public.sync_inline_tags(p_page_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.page_tags WHERE page_id = p_page_id AND source = 'inline';
+
+  INSERT INTO public.page_tags (page_id, tag, source)
+  SELECT DISTINCT p_page_id, lower(m[2]), 'inline'
+  FROM public.blocks b
+  JOIN public.pages p ON p.id = b.page_id AND p.branch_of IS NULL
+  CROSS JOIN LATERAL regexp_matches(b.content, '(^|\s)#([A-Za-z][A-Za-z0-9_/-]*)', 'g') AS m
+  WHERE b.page_id = p_page_id
+    AND b.deleted_at IS NULL
+    AND b.type <> 'code';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_block_inline_tags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.sync_inline_tags(OLD.page_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.page_id <> OLD.page_id) THEN
+    PERFORM public.sync_inline_tags(NEW.page_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Position-only updates can't change tags
+CREATE TRIGGER sync_blocks_inline_tags
+  AFTER INSERT OR DELETE OR UPDATE OF content, type, page_id, deleted_at ON public.blocks
+  FOR EACH ROW EXECUTE FUNCTION public.sync_block_inline_tags();
+
+-- Tags already written in existing blocks
+SELECT public.sync_inline_tags(id) FROM public.pages WHERE branch_of IS NULL;
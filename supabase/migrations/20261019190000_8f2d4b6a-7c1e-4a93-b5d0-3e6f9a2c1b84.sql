@@ -0,0 +1,302 @@
+-- Nested blocks. Blocks keep a single page-wide order; a nested block sits
+-- after its parent (and its parent's earlier children) in that order, and
+-- parent_block_id records which block it is nested under. Trashing a parent
+-- trashes its children with it (done by the client, which knows the subtree);
+-- purging a parent leaves any live child at the top level.
+ALTER TABLE public.blocks
+  ADD COLUMN parent_block_id UUID REFERENCES public.blocks(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_blocks_parent_block_id ON public.blocks(parent_block_id) WHERE parent_block_id IS NOT NULL;
+
+-- New blocks may be nested under a live block on the same page
+DROP FUNCTION public.insert_block_at(UUID, public.block_type, TEXT, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.insert_block_at(
+  p_page_id UUID,
+  p_type public.block_type,
+  p_content TEXT,
+  p_position TEXT,
+  p_after_block_id UUID DEFAULT NULL,
+  p_parent_block_id UUID DEFAULT NULL
+)
+RETURNS public.blocks
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_after TEXT COLLATE "C";
+  v_next TEXT COLLATE "C";
+  v_block public.blocks;
+BEGIN
+  PERFORM 1 FROM public.pages WHERE id = p_page_id AND deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  IF p_after_block_id IS NOT NULL THEN
+    SELECT position INTO v_after FROM public.blocks
+    WHERE id = p_after_block_id AND page_id = p_page_id AND deleted_at IS NULL;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'position_conflict';
+    END IF;
+  END IF;
+
+  IF p_parent_block_id IS NOT NULL THEN
+    PERFORM 1 FROM public.blocks
+    WHERE id = p_parent_block_id AND page_id = p_page_id AND deleted_at IS NULL;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'invalid_parent';
+    END IF;
+  END IF;
+
+  SELECT min(position) INTO v_next FROM public.blocks
+  WHERE page_id = p_page_id AND deleted_at IS NULL AND (v_after IS NULL OR position > v_after);
+
+  IF (v_after IS NOT NULL AND p_position COLLATE "C" <= v_after)
+    OR (v_next IS NOT NULL AND p_position COLLATE "C" >= v_next) THEN
+    RAISE EXCEPTION 'position_conflict';
+  END IF;
+
+  INSERT INTO public.blocks (page_id, type, content, position, parent_block_id)
+  VALUES (p_page_id, p_type, p_content, p_position, p_parent_block_id)
+  RETURNING * INTO v_block;
+
+  RETURN v_block;
+END;
+$$;
+
+-- Moving can also re-nest: with p_parent_ids, each moved block gets the
+-- parent at the same index (NULL for the top level). Indenting and outdenting
+-- pass the blocks' current positions.
+DROP FUNCTION public.move_blocks(UUID, UUID[], TEXT[]);
+
+CREATE OR REPLACE FUNCTION public.move_blocks(
+  p_page_id UUID,
+  p_block_ids UUID[],
+  p_positions TEXT[],
+  p_parent_ids UUID[] DEFAULT NULL
+)
+RETURNS SETOF public.blocks
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF array_length(p_block_ids, 1) IS DISTINCT FROM array_length(p_positions, 1) THEN
+    RAISE EXCEPTION 'block_ids and positions must have the same length';
+  END IF;
+  IF p_parent_ids IS NOT NULL AND array_length(p_block_ids, 1) IS DISTINCT FROM array_length(p_parent_ids, 1) THEN
+    RAISE EXCEPTION 'block_ids and parent_ids must have the same length';
+  END IF;
+
+  PERFORM 1 FROM public.pages WHERE id = p_page_id AND deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  UPDATE public.blocks AS b
+  SET page_id = p_page_id,
+      position = moved.position,
+      parent_block_id = CASE WHEN p_parent_ids IS NULL THEN b.parent_block_id ELSE moved.parent_id END
+  FROM unnest(p_block_ids, p_positions, p_parent_ids) AS moved(id, position, parent_id)
+  WHERE b.id = moved.id;
+
+  -- Duplicate keys would make the order ambiguous
+  IF EXISTS (
+    SELECT 1 FROM public.blocks
+    WHERE page_id = p_page_id AND deleted_at IS NULL
+    GROUP BY position
+    HAVING count(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'position_conflict';
+  END IF;
+
+  -- Parents must be live blocks on the same page
+  IF EXISTS (
+    SELECT 1 FROM public.blocks child
+    LEFT JOIN public.blocks parent ON parent.id = child.parent_block_id
+    WHERE child.id = ANY(p_block_ids)
+      AND child.parent_block_id IS NOT NULL
+      AND (parent.page_id IS DISTINCT FROM p_page_id OR parent.deleted_at IS NOT NULL)
+  ) THEN
+    RAISE EXCEPTION 'invalid_parent';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.blocks WHERE id = ANY(p_block_ids) ORDER BY position;
+END;
+$$;
+
+-- Versions and branch bases record nesting too
+CREATE OR REPLACE FUNCTION public.snapshot_page(
+  p_page_id UUID,
+  p_reason TEXT DEFAULT 'manual',
+  p_restored_from UUID DEFAULT NULL
+)
+RETURNS public.page_versions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_title TEXT;
+  v_blocks JSONB;
+  v_latest public.page_versions;
+  v_version public.page_versions;
+BEGIN
+  SELECT title INTO v_title FROM public.pages WHERE id = p_page_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', id, 'type', type, 'content', content, 'checked', checked, 'parent_block_id', parent_block_id
+      )
+      ORDER BY position
+    ),
+    '[]'::JSONB
+  ) INTO v_blocks
+  FROM public.blocks
+  WHERE page_id = p_page_id AND deleted_at IS NULL;
+
+  IF p_reason = 'auto' THEN
+    SELECT * INTO v_latest FROM public.page_versions
+    WHERE page_id = p_page_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+    IF FOUND AND v_latest.title = v_title AND v_latest.blocks = v_blocks THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO public.page_versions (page_id, author_id, author_name, reason, restored_from, title, blocks)
+  VALUES (
+    p_page_id,
+    auth.uid(),
+    (SELECT display_name FROM public.profiles WHERE user_id = auth.uid()),
+    p_reason,
+    p_restored_from,
+    v_title,
+    v_blocks
+  )
+  RETURNING * INTO v_version;
+
+  RETURN v_version;
+END;
+$$;
+
+-- Branch copies are nested like the blocks they came from
+CREATE OR REPLACE FUNCTION public.create_page_branch(p_page_id UUID, p_name TEXT)
+RETURNS public.pages
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_page public.pages;
+  v_branch public.pages;
+BEGIN
+  SELECT * INTO v_page FROM public.pages
+  WHERE id = p_page_id AND deleted_at IS NULL AND branch_of IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  INSERT INTO public.pages (user_id, title, icon, position, branch_of, branch_name, branch_base)
+  VALUES (
+    v_page.user_id,
+    v_page.title,
+    v_page.icon,
+    v_page.position,
+    p_page_id,
+    p_name,
+    (
+      SELECT COALESCE(
+        jsonb_agg(
+          jsonb_build_object(
+            'id', id, 'type', type, 'content', content, 'checked', checked, 'parent_block_id', parent_block_id
+          )
+          ORDER BY position
+        ),
+        '[]'::JSONB
+      )
+      FROM public.blocks
+      WHERE page_id = p_page_id AND deleted_at IS NULL
+    )
+  )
+  RETURNING * INTO v_branch;
+
+  INSERT INTO public.blocks (page_id, type, content, checked, position, source_block_id)
+  SELECT v_branch.id, type, content, checked, position, id
+  FROM public.blocks
+  WHERE page_id = p_page_id AND deleted_at IS NULL;
+
+  UPDATE public.blocks AS copy
+  SET parent_block_id = parent_copy.id
+  FROM public.blocks AS source, public.blocks AS parent_copy
+  WHERE copy.page_id = v_branch.id
+    AND source.id = copy.source_block_id
+    AND parent_copy.page_id = v_branch.id
+    AND parent_copy.source_block_id = source.parent_block_id;
+
+  RETURN v_branch;
+END;
+$$;
+
+-- Same as before, plus nesting: each block's parent_block_id names another
+-- block in p_blocks, and follows it when that block gets a new id. Parents
+-- that aren't in p_blocks are dropped.
+CREATE OR REPLACE FUNCTION public.apply_page_blocks(p_page_id UUID, p_blocks JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  CREATE TEMP TABLE applied_block_ids ON COMMIT DROP AS
+  SELECT
+    (b.value ->> 'id')::UUID AS given_id,
+    CASE
+      WHEN EXISTS (
+        SELECT 1 FROM public.blocks other
+        WHERE other.id = (b.value ->> 'id')::UUID AND other.page_id <> p_page_id
+      ) THEN gen_random_uuid()
+      ELSE (b.value ->> 'id')::UUID
+    END AS id,
+    (b.value ->> 'parent_block_id')::UUID AS given_parent_id,
+    b.value,
+    b.ordinality
+  FROM jsonb_array_elements(p_blocks) WITH ORDINALITY AS b;
+
+  UPDATE public.blocks SET deleted_at = now()
+  WHERE page_id = p_page_id
+    AND deleted_at IS NULL
+    AND NOT EXISTS (SELECT 1 FROM applied_block_ids a WHERE a.id = blocks.id);
+
+  INSERT INTO public.blocks (id, page_id, type, content, checked, position, parent_block_id, deleted_at)
+  SELECT
+    a.id,
+    p_page_id,
+    (a.value ->> 'type')::public.block_type,
+    a.value ->> 'content',
+    COALESCE((a.value ->> 'checked')::BOOLEAN, false),
+    public.position_key((a.ordinality - 1)::INTEGER),
+    NULL,
+    NULL
+  FROM applied_block_ids a
+  ON CONFLICT (id) DO UPDATE
+  SET type = EXCLUDED.type,
+      content = EXCLUDED.content,
+      checked = EXCLUDED.checked,
+      position = EXCLUDED.position,
+      parent_block_id = NULL,
+      deleted_at = NULL;
+
+  UPDATE public.blocks AS b
+  SET parent_block_id = parent.id
+  FROM applied_block_ids a
+  JOIN applied_block_ids parent ON parent.given_id = a.given_parent_id
+  WHERE b.id = a.id;
+
+  DROP TABLE applied_block_ids;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- Purge expired trash on a schedule instead of from the client's page list
+-- query, which ran it on every load and refetch. Keep the retention in step
+-- with TRASH_RETENTION_DAYS in src/hooks/usePages.ts.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('purge-trash', '0 3 * * *', $$SELECT public.purge_trash(30)$$);
+
+REVOKE EXECUTE ON FUNCTION public.purge_trash(INTEGER) FROM PUBLIC, anon, authenticated;
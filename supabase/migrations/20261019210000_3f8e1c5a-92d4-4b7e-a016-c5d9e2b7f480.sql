@@ -0,0 +1,65 @@
+-- Merges are computed by the client against the main page's blocks as it saw
+-- them. p_main_blocks passes that snapshot; if main has changed since, the
+-- merge is refused with 'merge_conflict' so the client can recompute it
+-- instead of overwriting the newer edits.
+DROP FUNCTION public.merge_page_branch(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.merge_page_branch(p_branch_id UUID, p_blocks JSONB, p_main_blocks JSONB)
+RETURNS public.page_versions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_page_id UUID;
+  v_main JSONB;
+  v_expected JSONB;
+BEGIN
+  SELECT branch_of INTO v_page_id FROM public.pages WHERE id = p_branch_id FOR UPDATE;
+  IF v_page_id IS NULL THEN
+    RAISE EXCEPTION 'branch_not_found';
+  END IF;
+
+  PERFORM 1 FROM public.pages WHERE id = v_page_id AND deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  -- Both sides in the shape snapshot_page records
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', id, 'type', type, 'content', content, 'checked', checked, 'parent_block_id', parent_block_id
+      )
+      ORDER BY position
+    ),
+    '[]'::JSONB
+  ) INTO v_main
+  FROM public.blocks
+  WHERE page_id = v_page_id AND deleted_at IS NULL;
+
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', (b.value ->> 'id')::UUID,
+        'type', b.value ->> 'type',
+        'content', b.value ->> 'content',
+        'checked', COALESCE((b.value ->> 'checked')::BOOLEAN, false),
+        'parent_block_id', (b.value ->> 'parent_block_id')::UUID
+      )
+      ORDER BY b.ordinality
+    ),
+    '[]'::JSONB
+  ) INTO v_expected
+  FROM jsonb_array_elements(p_main_blocks) WITH ORDINALITY AS b;
+
+  IF v_main IS DISTINCT FROM v_expected THEN
+    RAISE EXCEPTION 'merge_conflict';
+  END IF;
+
+  PERFORM public.snapshot_page(v_page_id, 'auto');
+  PERFORM public.apply_page_blocks(v_page_id, p_blocks);
+  DELETE FROM public.pages WHERE id = p_branch_id;
+
+  RETURN public.snapshot_page(v_page_id, 'merge');
+END;
+$$;
@@ -0,0 +1,39 @@
+-- A property value must use one of the user's own properties, not just sit on
+-- one of their pages
+DROP POLICY "Users can insert property values to their pages" ON public.page_property_values;
+DROP POLICY "Users can update property values of their pages" ON public.page_property_values;
+
+CREATE POLICY "Users can insert property values to their pages" ON public.page_property_values
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.pages
+      WHERE pages.id = page_property_values.page_id
+      AND pages.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.page_properties
+      WHERE page_properties.id = page_property_values.property_id
+      AND page_properties.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update property values of their pages" ON public.page_property_values
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.pages
+      WHERE pages.id = page_property_values.page_id
+      AND pages.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.pages
+      WHERE pages.id = page_property_values.page_id
+      AND pages.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.page_properties
+      WHERE page_properties.id = page_property_values.property_id
+      AND page_properties.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,53 @@
+-- sync_inline_tags runs with its owner's rights, so only the triggers below
+-- may call it
+REVOKE EXECUTE ON FUNCTION public.sync_inline_tags(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Sync tags once per statement instead of once per row: bulk writes
+-- (trash_page, apply_page_blocks, reorders) rescanned the whole page for every
+-- block they touched. Only pages where a changed block has or had a '#' in it
+-- are rescanned, so ordinary typing and moves skip the sync entirely.
+DROP TRIGGER sync_blocks_inline_tags ON public.blocks;
+
+CREATE OR REPLACE FUNCTION public.sync_block_inline_tags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.sync_inline_tags(affected.page_id)
+    FROM (SELECT DISTINCT page_id FROM new_blocks WHERE content LIKE '%#%') AS affected;
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM public.sync_inline_tags(affected.page_id)
+    FROM (SELECT DISTINCT page_id FROM old_blocks WHERE content LIKE '%#%') AS affected;
+  ELSE
+    PERFORM public.sync_inline_tags(affected.page_id)
+    FROM (
+      SELECT DISTINCT moved.page_id
+      FROM old_blocks o
+      JOIN new_blocks n ON n.id = o.id
+      CROSS JOIN LATERAL unnest(ARRAY[o.page_id, n.page_id]) AS moved(page_id)
+      WHERE (o.content LIKE '%#%' OR n.content LIKE '%#%')
+        AND (o.content, o.type, o.page_id, o.deleted_at) IS DISTINCT FROM (n.content, n.type, n.page_id, n.deleted_at)
+    ) AS affected;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Transition tables need one trigger per event
+CREATE TRIGGER sync_blocks_inline_tags_insert
+  AFTER INSERT ON public.blocks
+  REFERENCING NEW TABLE AS new_blocks
+  FOR EACH STATEMENT EXECUTE FUNCTION public.sync_block_inline_tags();
+
+CREATE TRIGGER sync_blocks_inline_tags_update
+  AFTER UPDATE ON public.blocks
+  REFERENCING OLD TABLE AS old_blocks NEW TABLE AS new_blocks
+  FOR EACH STATEMENT EXECUTE FUNCTION public.sync_block_inline_tags();
+
+CREATE TRIGGER sync_blocks_inline_tags_delete
+  AFTER DELETE ON public.blocks
+  REFERENCING OLD TABLE AS old_blocks
+  FOR EACH STATEMENT EXECUTE FUNCTION public.sync_block_inline_tags();
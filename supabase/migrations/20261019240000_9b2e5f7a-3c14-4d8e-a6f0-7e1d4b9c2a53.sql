@@ -0,0 +1,135 @@
+-- merge_page_branch compared main's raw checked column with a COALESCEd
+-- expected side, so a NULL checked on main always looked like a conflict.
+-- Both sides now go through the same normalisation.
+CREATE OR REPLACE FUNCTION public.merge_page_branch(p_branch_id UUID, p_blocks JSONB, p_main_blocks JSONB)
+RETURNS public.page_versions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_page_id UUID;
+  v_main JSONB;
+  v_expected JSONB;
+BEGIN
+  SELECT branch_of INTO v_page_id FROM public.pages WHERE id = p_branch_id FOR UPDATE;
+  IF v_page_id IS NULL THEN
+    RAISE EXCEPTION 'branch_not_found';
+  END IF;
+
+  PERFORM 1 FROM public.pages WHERE id = v_page_id AND deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  -- Both sides in the shape snapshot_page records
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', id, 'type', type, 'content', content, 'checked', COALESCE(checked, false), 'parent_block_id', parent_block_id
+      )
+      ORDER BY position
+    ),
+    '[]'::JSONB
+  ) INTO v_main
+  FROM public.blocks
+  WHERE page_id = v_page_id AND deleted_at IS NULL;
+
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', (b.value ->> 'id')::UUID,
+        'type', b.value ->> 'type',
+        'content', b.value ->> 'content',
+        'checked', COALESCE((b.value ->> 'checked')::BOOLEAN, false),
+        'parent_block_id', (b.value ->> 'parent_block_id')::UUID
+      )
+      ORDER BY b.ordinality
+    ),
+    '[]'::JSONB
+  ) INTO v_expected
+  FROM jsonb_array_elements(p_main_blocks) WITH ORDINALITY AS b;
+
+  IF v_main IS DISTINCT FROM v_expected THEN
+    RAISE EXCEPTION 'merge_conflict';
+  END IF;
+
+  PERFORM public.snapshot_page(v_page_id, 'auto');
+  PERFORM public.apply_page_blocks(v_page_id, p_blocks);
+  DELETE FROM public.pages WHERE id = p_branch_id;
+
+  RETURN public.snapshot_page(v_page_id, 'merge');
+END;
+$$;
+
+-- A page's branches go to the trash with it, with the same deleted_at, and
+-- come back when it is restored
+CREATE OR REPLACE FUNCTION public.trash_page(p_page_id UUID)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_ids UUID[];
+BEGIN
+  PERFORM 1 FROM public.pages WHERE id = p_page_id AND deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+
+  WITH RECURSIVE subtree AS (
+    SELECT id FROM public.pages WHERE id = p_page_id
+    UNION ALL
+    SELECT p.id FROM public.pages p JOIN subtree s ON p.parent_page_id = s.id OR p.branch_of = s.id
+    WHERE p.deleted_at IS NULL
+  )
+  SELECT array_agg(id) INTO v_ids FROM subtree;
+
+  -- now() is fixed for the transaction, so every row gets the same stamp
+  UPDATE public.pages SET deleted_at = now() WHERE id = ANY(v_ids);
+  UPDATE public.blocks SET deleted_at = now() WHERE page_id = ANY(v_ids) AND deleted_at IS NULL;
+
+  RETURN v_ids;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_page(p_page_id UUID, p_position TEXT)
+RETURNS SETOF public.pages
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted_at TIMESTAMPTZ;
+  v_parent_id UUID;
+  v_ids UUID[];
+BEGIN
+  SELECT deleted_at, parent_page_id INTO v_deleted_at, v_parent_id
+  FROM public.pages WHERE id = p_page_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'page_not_found';
+  END IF;
+  IF v_deleted_at IS NULL THEN
+    RAISE EXCEPTION 'page_not_in_trash';
+  END IF;
+
+  IF v_parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.pages WHERE id = v_parent_id AND deleted_at IS NULL
+  ) THEN
+    v_parent_id := NULL;
+  END IF;
+
+  WITH RECURSIVE subtree AS (
+    SELECT id FROM public.pages WHERE id = p_page_id
+    UNION ALL
+    SELECT p.id FROM public.pages p JOIN subtree s ON p.parent_page_id = s.id OR p.branch_of = s.id
+    WHERE p.deleted_at = v_deleted_at
+  )
+  SELECT array_agg(id) INTO v_ids FROM subtree;
+
+  UPDATE public.pages SET deleted_at = NULL WHERE id = ANY(v_ids);
+  UPDATE public.pages SET parent_page_id = v_parent_id, position = p_position WHERE id = p_page_id;
+  UPDATE public.blocks SET deleted_at = NULL WHERE page_id = ANY(v_ids) AND deleted_at = v_deleted_at;
+
+  RETURN QUERY
+  SELECT * FROM public.pages WHERE id = ANY(v_ids);
+END;
+$$;
@@ -0,0 +1,19 @@
+-- One source for how long trashed pages are kept: the scheduled purge and the
+-- trash's notice in the UI both read it from here.
+CREATE OR REPLACE FUNCTION public.trash_retention_days()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT 30
+$$;
+
+GRANT EXECUTE ON FUNCTION public.trash_retention_days() TO authenticated;
+
+-- Scheduling under the same name replaces the job
+SELECT cron.schedule(
+  'purge-trash',
+  '0 3 * * *',
+  $$SELECT public.purge_trash(public.trash_retention_days())$$
+);
@@ -0,0 +1,111 @@
+-- Search and snippets ran on the stored markup, so results showed escapes,
+-- ** and ~~ markers and [[page-id|title]] references. Index and highlight a
+-- plain-text projection of each block instead.
+
+-- Plain text of a block as the editor shows it. Mirrors parseInline in
+-- src/lib/richText.ts: drops page-reference and link syntax, keeping their
+-- text, drops unescaped * ~ ` markers and unescapes the rest. Code blocks
+-- store raw text. References keep their stored fallback title.
+CREATE OR REPLACE FUNCTION public.block_search_text(p_type public.block_type, p_content TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_type = 'code' THEN p_content
+    -- Escapes are matched first, left to right, so an escaped character is
+    -- never read as syntax; every other alternative has no \1 and is removed
+    ELSE regexp_replace(
+      p_content,
+      '\\(.)|\[\[[\w-]+\||\]\]|\]\([^)[:space:]]*\)|[][*~`]',
+      '\1',
+      'g'
+    )
+  END
+$$;
+
+DROP INDEX public.idx_blocks_content_search;
+
+CREATE INDEX idx_blocks_content_search
+  ON public.blocks USING GIN (to_tsvector('simple', public.block_search_text(type, content)));
+
+-- Same signature; block hits now search and highlight block_search_text
+CREATE OR REPLACE FUNCTION public.search_workspace(
+  p_query TEXT,
+  p_block_types public.block_type[] DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_statuses public.page_status[] DEFAULT NULL,
+  p_property_id UUID DEFAULT NULL,
+  p_property_value JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  page_id UUID,
+  block_id UUID,
+  block_type public.block_type,
+  snippet TEXT,
+  rank REAL,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('simple', string_agg(term[1] || ':*', ' & ')) AS query
+    FROM regexp_matches(lower(p_query), '([[:alnum:]]+)', 'g') AS term
+  ),
+  matching_pages AS (
+    SELECT p.id, p.title, p.updated_at
+    FROM public.pages p
+    WHERE p.deleted_at IS NULL
+      AND p.branch_of IS NULL
+      AND (p_statuses IS NULL OR p.status = ANY(p_statuses))
+      AND (
+        p_property_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM public.page_property_values v
+          WHERE v.page_id = p.id
+            AND v.property_id = p_property_id
+            AND (p_property_value IS NULL OR v.value @> p_property_value)
+        )
+      )
+  ),
+  hits AS (
+    SELECT
+      p.id AS page_id,
+      NULL::UUID AS block_id,
+      NULL::public.block_type AS block_type,
+      ts_headline('simple', p.title, q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS snippet,
+      -- Title matches outrank body matches
+      ts_rank(to_tsvector('simple', p.title), q.query) * 2 AS rank,
+      p.updated_at
+    FROM matching_pages p, q
+    WHERE p_block_types IS NULL
+      AND to_tsvector('simple', p.title) @@ q.query
+      AND (p_from IS NULL OR p.updated_at >= p_from)
+      AND (p_to IS NULL OR p.updated_at < p_to)
+
+    UNION ALL
+
+    SELECT
+      b.page_id,
+      b.id,
+      b.type,
+      ts_headline('simple', public.block_search_text(b.type, b.content), q.query, 'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2'),
+      ts_rank(to_tsvector('simple', public.block_search_text(b.type, b.content)), q.query),
+      b.updated_at
+    FROM public.blocks b
+    JOIN matching_pages bp ON bp.id = b.page_id, q
+    WHERE b.deleted_at IS NULL
+      AND to_tsvector('simple', public.block_search_text(b.type, b.content)) @@ q.query
+      AND (p_block_types IS NULL OR b.type = ANY(p_block_types))
+      AND (p_from IS NULL OR b.updated_at >= p_from)
+      AND (p_to IS NULL OR b.updated_at < p_to)
+  )
+  SELECT * FROM hits
+  ORDER BY rank DESC, updated_at DESC
+  LIMIT p_limit;
+$$;